@@ -1,7 +1,10 @@
 import React, { useState, useEffect, Suspense, lazy } from 'react';
 import { SectionSelection } from './components/SectionSelection';
 import { UpdateNotification } from './components/UpdateNotification';
-import { Section } from './types';
+import { Section, SelectedBatch } from './types';
+import { DEFAULT_BATCH, getSavedBatch, isKnownSection, saveSelectedBatch } from './services/programmeService';
+import { WorkerToAppMessage } from './services/alarmMessages';
+import { adoptSourceFromUrl } from './services/sourceService';
 
 // Dynamically import ScheduleView to avoid initialization issues
 const ScheduleView = lazy(() => 
@@ -32,11 +35,18 @@ const ScheduleView = lazy(() =>
 );
 
 const STORAGE_KEY = 'timetable_selected_section';
+const EXTRA_SECTIONS_KEY = 'timetable_extra_sections';
 const DARK_MODE_KEY = 'timetable_dark_mode';
 
+// A shared ?sheet= / ?csv= / ?json= link sets the source for the batch it was opened with.
+// Done once at start-up, before the first render reads the source, rather than during render.
+adoptSourceFromUrl(getSavedBatch() ?? DEFAULT_BATCH);
+
 export default function App() {
   const [currentView, setCurrentView] = useState<'home' | 'schedule'>('home');
-  const [selectedSection, setSelectedSection] = useState<Section>('A');
+  // First entry is the student's own section; the rest are merged into the same view
+  const [selectedSections, setSelectedSections] = useState<Section[]>([]);
+  const [selectedBatch, setSelectedBatch] = useState<SelectedBatch>(() => getSavedBatch() ?? DEFAULT_BATCH);
   const [updateAvailable, setUpdateAvailable] = useState(false);
   const [updateDismissed, setUpdateDismissed] = useState(false);
   const [isDarkMode, setIsDarkMode] = useState(() => {
@@ -70,9 +80,19 @@ export default function App() {
 
   // Load saved section from localStorage on mount
   useEffect(() => {
-    const savedSection = localStorage.getItem(STORAGE_KEY) as Section | null;
-    if (savedSection && ['A', 'B', 'C', 'D', 'E'].includes(savedSection)) {
-      setSelectedSection(savedSection);
+    const savedSection = localStorage.getItem(STORAGE_KEY);
+    const { batch } = selectedBatch;
+    if (isKnownSection(batch, savedSection)) {
+      let extraSections: Section[] = [];
+      try {
+        const parsed = JSON.parse(localStorage.getItem(EXTRA_SECTIONS_KEY) || '[]');
+        extraSections = Array.isArray(parsed)
+          ? parsed.filter((s: unknown): s is Section => isKnownSection(batch, s) && s !== savedSection)
+          : [];
+      } catch {
+        extraSections = [];
+      }
+      setSelectedSections([savedSection, ...extraSections]);
       setCurrentView('schedule');
     }
   }, []);
@@ -203,10 +223,10 @@ export default function App() {
     };
 
     // Listen for messages from service worker
-    const handleMessage = (event: MessageEvent) => {
-      if (event.data && event.data.type === 'ALARM_RINGING') {
+    const handleMessage = (event: MessageEvent<WorkerToAppMessage | undefined>) => {
+      if (event.data?.type === 'ALARM_RINGING') {
         playAlarmSound(event.data.alarmId);
-      } else if (event.data && event.data.type === 'ALARM_STOPPED') {
+      } else if (event.data?.type === 'ALARM_STOPPED') {
         stopAlarmSound(event.data.alarmId);
       }
     };
@@ -272,10 +292,13 @@ export default function App() {
     };
   }, []);
 
-  const handleSectionSelect = (sec: Section) => {
-    setSelectedSection(sec);
-    // Save section to localStorage
-    localStorage.setItem(STORAGE_KEY, sec);
+  const handleSectionSelect = (batch: SelectedBatch, sections: Section[]) => {
+    setSelectedBatch(batch);
+    setSelectedSections(sections);
+    // Save batch and sections to localStorage
+    saveSelectedBatch(batch);
+    localStorage.setItem(STORAGE_KEY, sections[0]);
+    localStorage.setItem(EXTRA_SECTIONS_KEY, JSON.stringify(sections.slice(1)));
     setCurrentView('schedule');
   };
 
@@ -298,6 +321,7 @@ export default function App() {
     <main className="antialiased text-gray-900 dark:text-gray-100 transition-colors duration-300">
       {currentView === 'home' ? (
         <SectionSelection 
+          initialBatch={selectedBatch}
           onSelect={handleSectionSelect} 
           isDarkMode={isDarkMode}
           onToggleDarkMode={toggleDarkMode}
@@ -312,7 +336,8 @@ export default function App() {
           </div>
         }>
           <ScheduleView 
-            section={selectedSection} 
+            batch={selectedBatch}
+            sections={selectedSections}
             onBack={handleBack}
             isDarkMode={isDarkMode}
             onToggleDarkMode={toggleDarkMode}
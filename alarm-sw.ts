@@ -0,0 +1,385 @@
+/// <reference lib="webworker" />
+// Service worker with alarm functionality and PWA caching.
+// Built by vite-plugin-pwa (injectManifest), which bundles Workbox and the shared services.
+
+import { precacheAndRoute, PrecacheEntry } from 'workbox-precaching';
+import { registerRoute } from 'workbox-routing';
+import { CacheFirst } from 'workbox-strategies';
+import { STORE_NAME, StoredAlarm, fromStoredAlarm, initDB } from './services/alarmStore';
+import { AppToWorkerMessage, WorkerToAppMessage } from './services/alarmMessages';
+import { formatReminderBody } from './services/alarmService';
+import { ClassNote, getNote } from './services/notesService';
+import { PERIODIC_SYNC_TAG, refreshTimetableInBackground } from './services/backgroundSyncService';
+import { describeScheduleChange } from './services/diffService';
+
+declare const self: ServiceWorkerGlobalScope & { __WB_MANIFEST: (PrecacheEntry | string)[] };
+
+// Precache assets (self.__WB_MANIFEST is replaced with the build's file list)
+precacheAndRoute(self.__WB_MANIFEST);
+
+// Google Sheets requests go straight to the network. The app keeps its own copy in IndexedDB,
+// and a cached answer here would hide that it is offline and show old data as just synced.
+// Earlier versions of this worker cached them here; that cache is deleted on activate.
+const LEGACY_SHEETS_CACHE = 'google-sheets-cache';
+
+// Cache icons with CacheFirst
+registerRoute(
+  ({ url }) => url.href.includes('cdn-icons-png.flaticon.com'),
+  new CacheFirst({
+    cacheName: 'icon-cache',
+  })
+);
+
+// ========== ALARM FUNCTIONALITY ==========
+
+interface RingingAlarm {
+  alarm: StoredAlarm;
+  startTime: number;
+  snoozeCount: number;
+  lastNotificationTime: number;
+}
+
+// Notification options that are supported but missing from the TypeScript DOM typings
+interface AlarmNotificationOptions extends NotificationOptions {
+  renotify?: boolean;
+  vibrate?: number[];
+  actions?: { action: string; title: string; icon?: string }[];
+}
+
+// Store active ringing alarms
+const activeRingingAlarms = new Map<string, RingingAlarm>();
+
+// Tell every open window, e.g. to start or stop the alarm sound
+const notifyClients = (message: WorkerToAppMessage) => {
+  self.clients.matchAll().then((clientList) => {
+    clientList.forEach((client) => client.postMessage(message));
+  });
+};
+
+// Look up the note for a class. Resolves null when there is none or it can't be read.
+const getClassNote = (classId: string): Promise<ClassNote | null> => {
+  return getNote(classId).catch(() => null);
+};
+
+// Reminder text followed by the class note and any unfinished to-dos
+const formatAlarmBody = (alarm: StoredAlarm, note: ClassNote | null): string => {
+  const lines = [formatReminderBody(alarm.subject, alarm.time, fromStoredAlarm(alarm).leadMinutes)];
+  if (note) {
+    if (note.text) lines.push(`📝 ${note.text}`);
+    note.tasks.filter((task) => !task.done).forEach((task) => lines.push(`☐ ${task.text}`));
+  }
+  return lines.join('\n');
+};
+
+// Start ringing alarm
+const startRingingAlarm = (alarmId: string, alarm: StoredAlarm, isNew = true) => {
+  // Create persistent notification with action buttons
+  const notificationOptions: AlarmNotificationOptions = {
+    icon: '/icon.svg',
+    badge: '/icon.svg',
+    tag: `alarm-${alarm.id}`,
+    requireInteraction: true, // Requires user interaction to dismiss
+    vibrate: [200, 100, 200, 100, 200, 100, 200, 100, 200], // Continuous vibration pattern
+    renotify: true,
+    silent: false, // Ensure sound plays
+    actions: [
+      {
+        action: 'snooze',
+        title: 'Snooze (5 min)',
+        icon: '/icon.svg'
+      },
+      {
+        action: 'dismiss',
+        title: 'Dismiss',
+        icon: '/icon.svg'
+      }
+    ],
+    data: {
+      alarmId: alarm.id,
+      subject: alarm.subject,
+      time: alarm.time,
+      isRinging: true,
+    },
+  };
+
+  // Close existing notification and show new one, with the class note read fresh each time
+  Promise.all([
+    self.registration.getNotifications({ tag: `alarm-${alarm.id}` }),
+    getClassNote(fromStoredAlarm(alarm).classId),
+  ]).then(([notifications, note]) => {
+    notifications.forEach((notification) => notification.close());
+    self.registration.showNotification('⏰ Class Alarm', { ...notificationOptions, body: formatAlarmBody(alarm, note) });
+  });
+
+  // Store alarm as active (or update if already active)
+  if (isNew || !activeRingingAlarms.has(alarmId)) {
+    activeRingingAlarms.set(alarmId, {
+      alarm,
+      startTime: Date.now(),
+      snoozeCount: 0,
+      lastNotificationTime: Date.now(),
+    });
+
+    // Notify all clients to start playing alarm sound
+    notifyClients({ type: 'ALARM_RINGING', alarmId, alarm });
+  } else {
+    // Update last notification time
+    const ringingAlarm = activeRingingAlarms.get(alarmId);
+    if (ringingAlarm) {
+      ringingAlarm.lastNotificationTime = Date.now();
+    }
+  }
+};
+
+// Stop ringing alarm
+const stopRingingAlarm = (alarmId: string) => {
+  activeRingingAlarms.delete(alarmId);
+
+  // Close notification
+  self.registration.getNotifications({ tag: `alarm-${alarmId}` }).then((notifications) => {
+    notifications.forEach((notification) => notification.close());
+  });
+
+  // Notify clients to stop alarm
+  notifyClients({ type: 'ALARM_STOPPED', alarmId });
+};
+
+// Tell the user that classes with alarms were moved or removed in the sheet
+const showScheduleChangeNotification = (changes: string[]): Promise<void> => {
+  if (changes.length === 0) return Promise.resolve();
+
+  // Keep the body short - notifications truncate long text
+  const lines = changes.slice(0, 3);
+  if (changes.length > 3) {
+    lines.push(`...and ${changes.length - 3} more`);
+  }
+
+  const options: AlarmNotificationOptions = {
+    body: lines.join('\n'),
+    icon: '/icon.svg',
+    badge: '/icon.svg',
+    tag: 'schedule-change',
+    renotify: true,
+    data: {
+      isScheduleChange: true,
+    },
+  };
+  return self.registration.showNotification('📅 Schedule changed', options);
+};
+
+// Re-read the timetable and move or drop alarms for classes that changed, telling the user
+// about any that did. Without `force` this only runs once the refresh interval has passed.
+const refreshTimetable = async (force = false) => {
+  try {
+    const affected = await refreshTimetableInBackground(force);
+    await showScheduleChangeNotification(affected.map(describeScheduleChange));
+  } catch (error) {
+    console.error('Error refreshing timetable:', error);
+  }
+};
+
+// Check and fire alarms
+const checkAlarms = async (): Promise<void> => {
+  try {
+    const db = await initDB();
+    const transaction = db.transaction([STORE_NAME], 'readonly');
+    const store = transaction.objectStore(STORE_NAME);
+    const index = store.index('alarmTime');
+
+    return new Promise((resolve) => {
+      // Get all alarms that should have fired (alarmTime <= now + 1 minute buffer)
+      const upperBound = new Date(Date.now() + 60000).toISOString();
+      const request = index.getAll(IDBKeyRange.upperBound(upperBound));
+
+      request.onsuccess = () => {
+        const alarms: StoredAlarm[] = request.result;
+        const nowTime = new Date();
+
+        for (const alarm of alarms) {
+          if (!alarm.enabled) continue;
+
+          const alarmTime = new Date(alarm.alarmTime);
+          const timeDiff = nowTime.getTime() - alarmTime.getTime();
+
+          // Fire if alarm time has passed (within 2 minute window)
+          // Keep ringing if already started (don't remove from DB until dismissed)
+          if (timeDiff >= -60000 && timeDiff < 120000) {
+            const ringingAlarm = activeRingingAlarms.get(alarm.id);
+
+            // Start ringing if not already ringing
+            if (!ringingAlarm) {
+              startRingingAlarm(alarm.id, alarm, true);
+            } else {
+              // Keep notification alive - re-show it every 30 seconds to keep it persistent
+              const timeSinceLastNotification = Date.now() - (ringingAlarm.lastNotificationTime || ringingAlarm.startTime);
+              if (timeSinceLastNotification > 30000) {
+                startRingingAlarm(alarm.id, alarm, false);
+              }
+
+              // Keep notifying clients to continue playing sound
+              notifyClients({ type: 'ALARM_RINGING', alarmId: alarm.id, alarm });
+            }
+          }
+        }
+
+        resolve();
+      };
+
+      request.onerror = () => resolve();
+    });
+  } catch (error) {
+    console.error('Error checking alarms:', error);
+  }
+};
+
+// Check alarms every minute
+let alarmCheckInterval: ReturnType<typeof setInterval> | null = null;
+
+// Start alarm checking
+const startAlarmChecking = () => {
+  // Clear any existing interval
+  if (alarmCheckInterval) {
+    clearInterval(alarmCheckInterval);
+  }
+
+  // Check alarms immediately
+  checkAlarms();
+
+  // Then check every minute. Where Periodic Background Sync isn't available, this is
+  // also when the timetable gets refreshed, before alarms for removed classes can ring.
+  alarmCheckInterval = setInterval(async () => {
+    await refreshTimetable();
+    checkAlarms();
+  }, 60000);
+};
+
+// Service worker lifecycle events
+self.addEventListener('install', (event) => {
+  self.skipWaiting();
+  event.waitUntil(checkAlarms());
+});
+
+self.addEventListener('activate', (event) => {
+  event.waitUntil(
+    (async () => {
+      await self.clients.claim();
+      await caches.delete(LEGACY_SHEETS_CACHE);
+      startAlarmChecking();
+    })()
+  );
+});
+
+// Listen for messages from the main app
+self.addEventListener('message', (event) => {
+  const message = event.data as AppToWorkerMessage | undefined;
+  switch (message?.type) {
+    case 'ALARM_UPDATED':
+    case 'CHECK_ALARMS':
+      checkAlarms();
+      break;
+    case 'ALARM_REMOVED':
+    case 'ALARMS_CLEARED':
+      // Nothing to do: each check reads the store afresh, and a ringing alarm
+      // keeps ringing until it is dismissed or snoozed
+      break;
+    case 'SCHEDULE_CHANGED':
+      event.waitUntil(showScheduleChangeNotification(message.changes));
+      break;
+  }
+});
+
+// Periodic Background Sync isn't in the webworker typings yet
+interface PeriodicSyncEvent extends ExtendableEvent {
+  tag: string;
+}
+
+// Browser-scheduled background refresh (installed apps in supporting browsers)
+self.addEventListener('periodicsync' as keyof ServiceWorkerGlobalScopeEventMap, (event) => {
+  const { tag } = event as PeriodicSyncEvent;
+  if (tag === PERIODIC_SYNC_TAG) {
+    (event as PeriodicSyncEvent).waitUntil(refreshTimetable(true).then(checkAlarms));
+  }
+});
+
+// Notification click handler with snooze/dismiss actions
+self.addEventListener('notificationclick', async (event) => {
+  const action = event.action;
+  const notificationData = event.notification.data;
+  const alarmId: string | undefined = notificationData?.alarmId;
+
+  event.notification.close();
+
+  if (action === 'dismiss') {
+    // Dismiss alarm - remove from DB and stop ringing
+    if (alarmId) {
+      stopRingingAlarm(alarmId);
+
+      // Remove from IndexedDB
+      try {
+        const db = await initDB();
+        const transaction = db.transaction([STORE_NAME], 'readwrite');
+        const store = transaction.objectStore(STORE_NAME);
+        store.delete(alarmId);
+      } catch (error) {
+        console.error('Error removing alarm:', error);
+      }
+    }
+  } else if (action === 'snooze') {
+    // Snooze for 5 minutes
+    if (alarmId && notificationData) {
+      stopRingingAlarm(alarmId);
+
+      // Update alarm time to 5 minutes from now
+      try {
+        const db = await initDB();
+        const transaction = db.transaction([STORE_NAME], 'readwrite');
+        const store = transaction.objectStore(STORE_NAME);
+
+        const getRequest = store.get(alarmId);
+        getRequest.onsuccess = () => {
+          const alarm: StoredAlarm | undefined = getRequest.result;
+          if (alarm) {
+            const newAlarmTime = new Date(Date.now() + 5 * 60 * 1000); // 5 minutes from now
+            // Keep the reminder text accurate: class start is the old alarm time plus its lead
+            const { leadMinutes } = fromStoredAlarm(alarm);
+            const classStart = new Date(alarm.alarmTime).getTime() + leadMinutes * 60000;
+            alarm.leadMinutes = Math.round((classStart - newAlarmTime.getTime()) / 60000);
+            alarm.alarmTime = newAlarmTime.toISOString();
+            alarm.enabled = true; // Keep enabled
+
+            // Remove from active ringing alarms (will be re-added when it fires again)
+            activeRingingAlarms.delete(alarmId);
+
+            store.put(alarm);
+
+            // Show snooze confirmation
+            self.registration.showNotification('Alarm Snoozed', {
+              body: `Alarm will ring again in 5 minutes`,
+              icon: '/icon.svg',
+              tag: 'snooze-confirmation',
+            });
+          }
+        };
+      } catch (error) {
+        console.error('Error snoozing alarm:', error);
+      }
+    }
+  } else {
+    // Default click - open/focus app
+    event.waitUntil(
+      self.clients.matchAll({ type: 'window', includeUncontrolled: true }).then((clientList) => {
+        for (const client of clientList) {
+          if (client.url.includes(self.location.origin) && 'focus' in client) {
+            return client.focus();
+          }
+        }
+        if (self.clients.openWindow) {
+          return self.clients.openWindow('/');
+        }
+      })
+    );
+  }
+});
+
+// Start checking on load
+startAlarmChecking();
@@ -0,0 +1,95 @@
+import React, { useMemo } from 'react';
+import { Assessment, formatDaysRemaining, groupAssessmentsByCourse } from '../services/assessmentService';
+import { ChevronLeft, ClipboardCheck, BellRing } from 'lucide-react';
+
+interface AssessmentsViewProps {
+  assessments: Assessment[];
+  showSection: boolean;
+  dayBeforeReminders: boolean;
+  onToggleDayBeforeReminders: () => void;
+  onSelectDate: (date: Date) => void;
+  onClose: () => void;
+}
+
+// Countdown chip colour by urgency
+const getCountdownStyles = (days: number): string => {
+  if (days <= 1) return 'bg-red-600 dark:bg-red-500 text-white';
+  if (days <= 7) return 'bg-amber-100 dark:bg-amber-900/40 text-amber-800 dark:text-amber-200';
+  return 'bg-gray-100 dark:bg-gray-700 text-gray-600 dark:text-gray-300';
+};
+
+export const AssessmentsView: React.FC<AssessmentsViewProps> = ({
+  assessments,
+  showSection,
+  dayBeforeReminders,
+  onToggleDayBeforeReminders,
+  onSelectDate,
+  onClose,
+}) => {
+  const groups = useMemo(() => groupAssessmentsByCourse(assessments), [assessments]);
+
+  return (
+    <div className="fixed inset-0 z-40 bg-gray-50 dark:bg-gray-900 overflow-y-auto animate-in slide-in-from-right-4 duration-300 transition-colors">
+      <div className="bg-white dark:bg-gray-800 px-4 py-4 sticky top-0 z-10 border-b border-gray-100 dark:border-gray-700 flex items-center gap-2 transition-colors duration-300">
+        <button
+          onClick={onClose}
+          className="p-2 -ml-2 hover:bg-gray-100 dark:hover:bg-gray-700 rounded-full transition-colors active:scale-95"
+          aria-label="Back to schedule"
+        >
+          <ChevronLeft className="w-6 h-6 text-gray-700 dark:text-gray-300" />
+        </button>
+        <h2 className="text-lg font-bold text-gray-900 dark:text-gray-100 tracking-tight transition-colors duration-300">Assessments</h2>
+      </div>
+
+      <div className="p-4 max-w-lg mx-auto w-full space-y-4">
+        <label className="flex items-center gap-3 p-4 bg-white dark:bg-gray-800 rounded-2xl border border-gray-100 dark:border-gray-700 text-sm text-gray-700 dark:text-gray-300 transition-colors duration-300">
+          <BellRing className="w-5 h-5 text-amber-600 dark:text-amber-400 flex-shrink-0" />
+          <span className="flex-1">Remind me the day before each quiz and exam</span>
+          <input
+            type="checkbox"
+            checked={dayBeforeReminders}
+            onChange={onToggleDayBeforeReminders}
+            className="w-4 h-4 rounded accent-amber-600"
+          />
+        </label>
+
+        {groups.length === 0 ? (
+          <div className="flex flex-col items-center justify-center h-64 text-center">
+            <ClipboardCheck className="w-12 h-12 text-gray-300 dark:text-gray-600 mb-3" />
+            <p className="text-gray-900 dark:text-gray-100 font-bold transition-colors duration-300">No upcoming assessments</p>
+            <p className="text-gray-500 dark:text-gray-400 text-sm transition-colors duration-300">Quizzes and exams in the timetable will show up here.</p>
+          </div>
+        ) : (
+          groups.map(({ course, assessments: items }) => (
+            <section key={course} className="bg-white dark:bg-gray-800 rounded-2xl border border-gray-100 dark:border-gray-700 p-4 transition-colors duration-300">
+              <h3 className="text-sm font-bold text-gray-900 dark:text-gray-100 mb-2 transition-colors duration-300">{course}</h3>
+              <ul className="space-y-1">
+                {items.map((assessment, idx) => (
+                  <li key={`${assessment.date.toDateString()}-${assessment.slot.startTime}-${idx}`}>
+                    <button
+                      onClick={() => onSelectDate(assessment.date)}
+                      className="w-full flex items-center gap-3 py-2 text-left rounded-lg hover:bg-gray-50 dark:hover:bg-gray-700/60 transition-colors"
+                    >
+                      <div className="flex-1 min-w-0">
+                        <p className="text-sm font-semibold text-red-900 dark:text-red-200 truncate transition-colors duration-300">{assessment.slot.subject}</p>
+                        <p className="text-xs text-gray-500 dark:text-gray-400 transition-colors duration-300">
+                          {assessment.date.toLocaleDateString('en-US', { weekday: 'short', month: 'short', day: 'numeric' })}
+                          {' · '}
+                          <span className="font-mono">{assessment.slot.startTime}</span>
+                          {showSection && assessment.slot.section ? ` · Section ${assessment.slot.section}` : ''}
+                        </p>
+                      </div>
+                      <span className={`flex-shrink-0 px-2.5 py-1 rounded-full text-xs font-bold ${getCountdownStyles(assessment.daysRemaining)}`}>
+                        {formatDaysRemaining(assessment.daysRemaining)}
+                      </span>
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            </section>
+          ))
+        )}
+      </div>
+    </div>
+  );
+};
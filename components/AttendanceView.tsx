@@ -0,0 +1,96 @@
+import React from 'react';
+import { AttendanceLevel, CourseAttendance } from '../services/attendanceService';
+import { MIN_ATTENDANCE_PERCENT } from '../constants';
+import { ChevronLeft, UserCheck, AlertTriangle } from 'lucide-react';
+
+interface AttendanceViewProps {
+  courses: CourseAttendance[];
+  onClose: () => void;
+}
+
+const LEVEL_STYLES: Record<AttendanceLevel, { bar: string; text: string }> = {
+  ok: { bar: 'bg-emerald-600 dark:bg-emerald-400', text: 'text-emerald-700 dark:text-emerald-300' },
+  warning: { bar: 'bg-amber-500 dark:bg-amber-400', text: 'text-amber-700 dark:text-amber-300' },
+  danger: { bar: 'bg-red-600 dark:bg-red-500', text: 'text-red-700 dark:text-red-300' },
+};
+
+const formatCanMiss = (canMiss: number): string => {
+  if (canMiss === 0) return "Can't miss any more classes";
+  return `Can miss ${canMiss} more ${canMiss === 1 ? 'class' : 'classes'}`;
+};
+
+export const AttendanceView: React.FC<AttendanceViewProps> = ({ courses, onClose }) => {
+  const atRisk = courses.filter((course) => course.level !== 'ok').length;
+  const hasMarks = courses.some((course) => course.attended + course.missed + course.cancelled > 0);
+
+  return (
+    <div className="fixed inset-0 z-40 bg-gray-50 dark:bg-gray-900 overflow-y-auto animate-in slide-in-from-right-4 duration-300 transition-colors">
+      <div className="bg-white dark:bg-gray-800 px-4 py-4 sticky top-0 z-10 border-b border-gray-100 dark:border-gray-700 flex items-center gap-2 transition-colors duration-300">
+        <button
+          onClick={onClose}
+          className="p-2 -ml-2 hover:bg-gray-100 dark:hover:bg-gray-700 rounded-full transition-colors active:scale-95"
+          aria-label="Back to schedule"
+        >
+          <ChevronLeft className="w-6 h-6 text-gray-700 dark:text-gray-300" />
+        </button>
+        <h2 className="text-lg font-bold text-gray-900 dark:text-gray-100 tracking-tight transition-colors duration-300">Attendance</h2>
+      </div>
+
+      <div className="p-4 max-w-lg mx-auto w-full space-y-4">
+        <p className="text-xs text-gray-500 dark:text-gray-400 transition-colors duration-300">
+          Minimum {MIN_ATTENDANCE_PERCENT}% per course. Cancelled classes don't count.
+          {atRisk > 0 && ` ${atRisk} ${atRisk === 1 ? 'course needs' : 'courses need'} attention.`}
+        </p>
+
+        {!hasMarks ? (
+          <div className="flex flex-col items-center justify-center h-64 text-center">
+            <UserCheck className="w-12 h-12 text-gray-300 dark:text-gray-600 mb-3" />
+            <p className="text-gray-900 dark:text-gray-100 font-bold transition-colors duration-300">Nothing marked yet</p>
+            <p className="text-gray-500 dark:text-gray-400 text-sm transition-colors duration-300">Mark classes as attended, missed or cancelled from the day view.</p>
+          </div>
+        ) : (
+          <ul className="space-y-3">
+            {courses.map((course) => {
+              const styles = LEVEL_STYLES[course.level];
+              return (
+                <li
+                  key={course.course}
+                  className="p-4 bg-white dark:bg-gray-800 rounded-2xl border border-gray-100 dark:border-gray-700 transition-colors duration-300"
+                >
+                  <div className="flex items-baseline justify-between gap-3 mb-1">
+                    <span className="text-sm font-bold text-gray-900 dark:text-gray-100 truncate transition-colors duration-300">{course.course}</span>
+                    <span className={`font-mono text-sm font-bold ${course.percent === null ? 'text-gray-400 dark:text-gray-500' : styles.text}`}>
+                      {course.percent === null ? '–' : `${course.percent}%`}
+                    </span>
+                  </div>
+                  <div
+                    className="h-2 rounded-full bg-gray-100 dark:bg-gray-700 overflow-hidden mb-2"
+                    role="progressbar"
+                    aria-label={`${course.course}: ${course.percent ?? 0}% attendance`}
+                    aria-valuenow={course.percent ?? 0}
+                    aria-valuemin={0}
+                    aria-valuemax={100}
+                  >
+                    <div className={`h-full ${styles.bar}`} style={{ width: `${course.percent ?? 0}%` }} />
+                  </div>
+                  <div className="flex flex-wrap items-center justify-between gap-2 text-xs text-gray-500 dark:text-gray-400 transition-colors duration-300">
+                    <span>
+                      {course.attended} attended · {course.missed} missed
+                      {course.cancelled > 0 && ` · ${course.cancelled} cancelled`}
+                    </span>
+                    {course.canMiss !== null && (
+                      <span className={`flex items-center gap-1 ${course.level === 'ok' ? '' : `font-semibold ${styles.text}`}`}>
+                        {course.level !== 'ok' && <AlertTriangle className="w-3.5 h-3.5" />}
+                        {course.level === 'danger' ? `Below ${MIN_ATTENDANCE_PERCENT}%` : formatCanMiss(course.canMiss)}
+                      </span>
+                    )}
+                  </div>
+                </li>
+              );
+            })}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+};
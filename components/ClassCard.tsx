@@ -1,19 +1,32 @@
-import React from 'react';
+import React, { useState } from 'react';
 import { TimeSlot } from '../types';
-import { Clock, MapPin, Bell, BellOff } from 'lucide-react';
+import { isAssessmentSubject } from '../services/subjectService';
+import { AttendanceStatus } from '../services/attendanceService';
+import { ClassNote, ClassNoteContent } from '../services/notesService';
+import { ClassNotesPanel } from './ClassNotesPanel';
+import { ClassStatus, formatMinutes, getClassTiming } from '../services/timeService';
+import { Clock, MapPin, User, Info, Bell, BellOff, AlertTriangle, Check, X, Ban, StickyNote } from 'lucide-react';
 
 interface ClassCardProps {
   slot: TimeSlot;
   isDarkMode: boolean;
   isAlarmEnabled: boolean;
   onAlarmToggle: () => void;
+  reminderLabel: string; // e.g. "10 min before class"
   currentDate: Date;
+  now: Date; // Ticks while the view is open so progress stays live
+  showSection?: boolean; // Badge the section when several are merged
+  hasClash?: boolean;    // Overlaps another class on the same day
+  attendance?: AttendanceStatus;
+  onMarkAttendance?: (status: AttendanceStatus | null) => void; // null clears the mark
+  note?: ClassNote;
+  onSaveNote?: (content: ClassNoteContent) => void;
 }
 
-const getSubjectStyles = (subject: string) => {
+export const getSubjectStyles = (subject: string) => {
   const s = subject.toLowerCase();
   
-  if (s.includes("quiz") || s.includes("exam") || s.includes("mid term") || s.includes("end term")) 
+  if (isAssessmentSubject(subject)) 
     return "bg-red-50 text-red-900 border-red-200 ring-red-100 dark:bg-red-900/30 dark:text-red-200 dark:border-red-800";
   if (s.includes("macro") || s.includes("econ")) 
     return "bg-blue-50 text-blue-900 border-blue-200 ring-blue-100 dark:bg-blue-900/30 dark:text-blue-200 dark:border-blue-800";
@@ -35,27 +48,87 @@ const getSubjectStyles = (subject: string) => {
   return "bg-white text-gray-800 border-gray-200 ring-gray-100 dark:bg-gray-800 dark:text-gray-100 dark:border-gray-700";
 };
 
-export const ClassCard: React.FC<ClassCardProps> = ({ slot, isDarkMode, isAlarmEnabled, onAlarmToggle, currentDate }) => {
+const ATTENDANCE_OPTIONS: { status: AttendanceStatus; label: string; icon: typeof Check; activeStyles: string }[] = [
+  { status: 'attended', label: 'Attended', icon: Check, activeStyles: 'bg-emerald-600 dark:bg-emerald-500 text-white border-transparent' },
+  { status: 'missed', label: 'Missed', icon: X, activeStyles: 'bg-red-600 dark:bg-red-500 text-white border-transparent' },
+  { status: 'cancelled', label: 'Cancelled', icon: Ban, activeStyles: 'bg-gray-600 dark:bg-gray-500 text-white border-transparent' },
+];
+
+const STATUS_STYLES: Record<ClassStatus, string> = {
+  'past': 'opacity-50',
+  'in-progress': 'ring-2 ring-blue-500 dark:ring-blue-400 shadow-md',
+  'upcoming': '',
+};
+
+export const ClassCard: React.FC<ClassCardProps> = ({ slot, isDarkMode, isAlarmEnabled, onAlarmToggle, reminderLabel, currentDate, now, showSection = false, hasClash = false, attendance, onMarkAttendance, note, onSaveNote }) => {
   const styles = getSubjectStyles(slot.subject);
+  const timing = getClassTiming(currentDate, slot.startTime, slot.endTime, now);
+  // Marking opens once the class has started; existing marks always show
+  const showAttendance = onMarkAttendance && (timing.status !== 'upcoming' || attendance);
+  const [isEditingNote, setIsEditingNote] = useState(false);
+
+  // Ticking a to-do saves straight away; everything else goes through the panel
+  const toggleTask = (index: number) => {
+    if (!note || !onSaveNote) return;
+    onSaveNote({ text: note.text, tasks: note.tasks.map((task, i) => i === index ? { ...task, done: !task.done } : task) });
+  };
 
   return (
-    <div className={`relative p-5 rounded-2xl border shadow-sm transition-all duration-300 hover:shadow-md ${styles}`}>
+    <div className={`relative overflow-hidden p-5 rounded-2xl border shadow-sm transition-all duration-300 hover:shadow-md ${styles} ${STATUS_STYLES[timing.status]} ${hasClash && timing.status !== 'in-progress' ? 'ring-2 ring-red-400 dark:ring-red-500' : ''}`}>
+      {timing.status === 'in-progress' && (
+        <span className="inline-block mb-2 px-2 py-0.5 rounded-full bg-blue-600 dark:bg-blue-500 text-white text-[10px] font-bold uppercase tracking-wider">
+          Now · {formatMinutes(timing.minutesToEnd)} left
+        </span>
+      )}
+
       <div className="flex justify-between items-start gap-4">
         <div className="flex-1">
+          {(showSection && slot.section || hasClash) && (
+            <div className="flex flex-wrap items-center gap-1.5 mb-2">
+              {showSection && slot.section && (
+                <span className="px-2 py-0.5 rounded-md bg-white/70 dark:bg-gray-700/70 border border-black/5 dark:border-gray-600/40 text-[10px] font-bold uppercase tracking-wider">
+                  Section {slot.section}
+                </span>
+              )}
+              {hasClash && (
+                <span className="flex items-center gap-1 px-2 py-0.5 rounded-md bg-red-600 dark:bg-red-500 text-white text-[10px] font-bold uppercase tracking-wider">
+                  <AlertTriangle className="w-3 h-3" />
+                  Clash
+                </span>
+              )}
+            </div>
+          )}
           <h3 className="font-bold text-lg leading-tight mb-2 transition-colors duration-300">{slot.subject}</h3>
           
-          <div className="flex items-center gap-4 text-sm opacity-80 font-medium">
-             <div className="flex items-center gap-1.5">
-                <MapPin className="w-4 h-4 transition-colors duration-300" />
-                <span className="transition-colors duration-300">Ground Floor</span>
-             </div>
-          </div>
+          {(slot.room || slot.faculty) && (
+            <div className="flex flex-wrap items-center gap-x-4 gap-y-1 text-sm opacity-80 font-medium">
+               {slot.room && (
+                 <div className="flex items-center gap-1.5">
+                    <MapPin className="w-4 h-4 transition-colors duration-300" />
+                    <span className="transition-colors duration-300">{slot.room}</span>
+                 </div>
+               )}
+               {slot.faculty && (
+                 <div className="flex items-center gap-1.5">
+                    <User className="w-4 h-4 transition-colors duration-300" />
+                    <span className="transition-colors duration-300">{slot.faculty}</span>
+                 </div>
+               )}
+            </div>
+          )}
+
+          {slot.notes && (
+            <p className="flex items-start gap-1.5 mt-2 text-xs opacity-70 transition-colors duration-300">
+              <Info className="w-3.5 h-3.5 mt-px flex-shrink-0" />
+              <span>{slot.notes}</span>
+            </p>
+          )}
         </div>
         
         <div className="flex flex-col items-end gap-2">
             <div className="flex items-center gap-1.5 px-3 py-1.5 rounded-lg backdrop-blur-sm border border-black/5 dark:border-gray-600/30 shadow-sm transition-colors duration-300 bg-white/60 dark:bg-gray-700/60">
                 <Clock className="w-4 h-4 transition-colors duration-300" />
-                <span className="font-bold font-mono tracking-tight transition-colors duration-300">{slot.time}</span>
+                <span className="font-bold font-mono tracking-tight transition-colors duration-300">{slot.startTime}–{slot.endTime}</span>
             </div>
             
             {/* Alarm Button */}
@@ -67,7 +140,7 @@ export const ClassCard: React.FC<ClassCardProps> = ({ slot, isDarkMode, isAlarmE
                   : 'bg-gray-100 dark:bg-gray-700/60 text-gray-500 dark:text-gray-400 hover:bg-gray-200 dark:hover:bg-gray-700'
               }`}
               aria-label={isAlarmEnabled ? 'Disable alarm' : 'Enable alarm'}
-              title={isAlarmEnabled ? 'Alarm enabled (10 min before class)' : 'Enable alarm (10 min before class)'}
+              title={isAlarmEnabled ? `Alarm enabled (${reminderLabel})` : `Enable alarm (${reminderLabel})`}
             >
               {isAlarmEnabled ? (
                 <Bell className="w-4 h-4" />
@@ -75,8 +148,85 @@ export const ClassCard: React.FC<ClassCardProps> = ({ slot, isDarkMode, isAlarmE
                 <BellOff className="w-4 h-4" />
               )}
             </button>
+
+            {onSaveNote && (
+              <button
+                onClick={() => setIsEditingNote((prev) => !prev)}
+                className={`p-2 rounded-lg transition-all duration-300 active:scale-95 ${
+                  note
+                    ? 'bg-sky-100 dark:bg-sky-900/40 text-sky-700 dark:text-sky-300 hover:bg-sky-200 dark:hover:bg-sky-900/60'
+                    : 'bg-gray-100 dark:bg-gray-700/60 text-gray-500 dark:text-gray-400 hover:bg-gray-200 dark:hover:bg-gray-700'
+                }`}
+                aria-label={note ? 'Edit notes' : 'Add notes'}
+                aria-expanded={isEditingNote}
+              >
+                <StickyNote className="w-4 h-4" />
+              </button>
+            )}
         </div>
       </div>
+
+      {isEditingNote && onSaveNote ? (
+        <ClassNotesPanel note={note} onSave={onSaveNote} onClose={() => setIsEditingNote(false)} />
+      ) : note && (
+        <div className="mt-3 pt-3 border-t border-black/5 dark:border-white/10 space-y-1 text-sm">
+          {note.text && (
+            <p className="flex items-start gap-1.5 whitespace-pre-line">
+              <StickyNote className="w-3.5 h-3.5 mt-0.5 flex-shrink-0 opacity-70" />
+              <span>{note.text}</span>
+            </p>
+          )}
+          {note.tasks.map((task, idx) => (
+            <label key={idx} className="flex items-center gap-2 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={task.done}
+                onChange={() => toggleTask(idx)}
+                className="w-4 h-4 rounded accent-blue-600"
+              />
+              <span className={task.done ? 'line-through opacity-60' : ''}>{task.text}</span>
+            </label>
+          ))}
+        </div>
+      )}
+
+      {showAttendance && (
+        <div className="flex gap-1.5 mt-3" role="group" aria-label="Attendance">
+          {ATTENDANCE_OPTIONS.map(({ status, label, icon: Icon, activeStyles }) => {
+            const isActive = attendance === status;
+            return (
+              <button
+                key={status}
+                onClick={() => onMarkAttendance(isActive ? null : status)}
+                className={`flex items-center gap-1 px-2.5 py-1 rounded-lg border text-xs font-semibold transition-all duration-300 active:scale-95 ${
+                  isActive
+                    ? activeStyles
+                    : 'bg-white/60 dark:bg-gray-700/60 border-black/5 dark:border-gray-600/30 opacity-80 hover:opacity-100'
+                }`}
+                aria-pressed={isActive}
+              >
+                <Icon className="w-3.5 h-3.5" />
+                {label}
+              </button>
+            );
+          })}
+        </div>
+      )}
+
+      {timing.status === 'in-progress' && (
+        <div
+          className="absolute bottom-0 left-0 right-0 h-1 bg-black/5 dark:bg-white/10"
+          role="progressbar"
+          aria-valuenow={Math.round(timing.progress * 100)}
+          aria-valuemin={0}
+          aria-valuemax={100}
+        >
+          <div
+            className="h-full bg-blue-600 dark:bg-blue-400 transition-[width] duration-1000"
+            style={{ width: `${timing.progress * 100}%` }}
+          />
+        </div>
+      )}
     </div>
   );
 };
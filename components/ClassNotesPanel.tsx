@@ -0,0 +1,99 @@
+import React, { useState } from 'react';
+import { ClassNote, ClassNoteContent, ClassTask } from '../services/notesService';
+import { Plus, Trash2 } from 'lucide-react';
+
+interface ClassNotesPanelProps {
+  note?: ClassNote;
+  onSave: (content: ClassNoteContent) => void;
+  onClose: () => void;
+}
+
+export const ClassNotesPanel: React.FC<ClassNotesPanelProps> = ({ note, onSave, onClose }) => {
+  const [text, setText] = useState(note?.text ?? '');
+  const [tasks, setTasks] = useState<ClassTask[]>(note?.tasks ?? []);
+  const [newTask, setNewTask] = useState('');
+
+  const addTask = () => {
+    const trimmed = newTask.trim();
+    if (!trimmed) return;
+    setTasks((prev) => [...prev, { text: trimmed, done: false }]);
+    setNewTask('');
+  };
+
+  const handleSave = () => {
+    // A task typed but not added yet is still saved
+    const pending = newTask.trim();
+    onSave({ text: text.trim(), tasks: pending ? [...tasks, { text: pending, done: false }] : tasks });
+    onClose();
+  };
+
+  return (
+    <div className="mt-3 p-3 rounded-xl bg-white/70 dark:bg-gray-800/70 border border-black/5 dark:border-gray-600/40 space-y-2 text-gray-800 dark:text-gray-100">
+      <textarea
+        value={text}
+        onChange={(e) => setText(e.target.value)}
+        placeholder="Notes for this class, e.g. case reading pp. 12–30"
+        rows={2}
+        className="w-full px-2 py-1.5 rounded-lg bg-white dark:bg-gray-700 border border-gray-200 dark:border-gray-600 text-sm resize-none focus:outline-none focus:ring-2 focus:ring-blue-500"
+        autoFocus
+      />
+
+      {tasks.length > 0 && (
+        <ul className="space-y-1">
+          {tasks.map((task, idx) => (
+            <li key={idx} className="flex items-center gap-2 text-sm">
+              <input
+                type="checkbox"
+                checked={task.done}
+                onChange={() => setTasks((prev) => prev.map((t, i) => i === idx ? { ...t, done: !t.done } : t))}
+                className="w-4 h-4 rounded accent-blue-600"
+              />
+              <span className={`flex-1 ${task.done ? 'line-through opacity-60' : ''}`}>{task.text}</span>
+              <button
+                onClick={() => setTasks((prev) => prev.filter((_, i) => i !== idx))}
+                className="p-1 rounded-md opacity-60 hover:opacity-100"
+                aria-label={`Remove ${task.text}`}
+              >
+                <Trash2 className="w-3.5 h-3.5" />
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <div className="flex gap-2">
+        <input
+          type="text"
+          value={newTask}
+          onChange={(e) => setNewTask(e.target.value)}
+          onKeyDown={(e) => e.key === 'Enter' && addTask()}
+          placeholder="Add a to-do, e.g. bring calculator"
+          className="flex-1 min-w-0 px-2 py-1.5 rounded-lg bg-white dark:bg-gray-700 border border-gray-200 dark:border-gray-600 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+        />
+        <button
+          onClick={addTask}
+          disabled={!newTask.trim()}
+          className="p-2 rounded-lg bg-gray-100 dark:bg-gray-700 hover:bg-gray-200 dark:hover:bg-gray-600 transition-colors disabled:opacity-40"
+          aria-label="Add to-do"
+        >
+          <Plus className="w-4 h-4" />
+        </button>
+      </div>
+
+      <div className="flex justify-end gap-2 pt-1">
+        <button
+          onClick={onClose}
+          className="px-3 py-1.5 rounded-lg text-xs font-semibold text-gray-600 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700 transition-colors"
+        >
+          Cancel
+        </button>
+        <button
+          onClick={handleSave}
+          className="px-3 py-1.5 rounded-lg bg-blue-600 dark:bg-blue-500 text-white text-xs font-semibold hover:bg-blue-700 dark:hover:bg-blue-600 transition-colors active:scale-95"
+        >
+          Save
+        </button>
+      </div>
+    </div>
+  );
+};
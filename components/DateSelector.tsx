@@ -4,10 +4,11 @@ interface DateSelectorProps {
   currentDate: Date;
   onSelectDate: (date: Date) => void;
   days: Date[];
+  noteDates?: Set<string>; // toDateString of days with class notes
   isDarkMode: boolean;
 }
 
-export const DateSelector: React.FC<DateSelectorProps> = ({ currentDate, onSelectDate, days, isDarkMode }) => {
+export const DateSelector: React.FC<DateSelectorProps> = ({ currentDate, onSelectDate, days, noteDates, isDarkMode }) => {
   const scrollRef = useRef<HTMLDivElement>(null);
 
   // Auto-scroll to selected date on mount or change
@@ -27,17 +28,19 @@ export const DateSelector: React.FC<DateSelectorProps> = ({ currentDate, onSelec
         className="flex items-center overflow-x-auto no-scrollbar py-3 px-2 gap-2 snap-x"
       >
         {days.map((day, idx) => {
-          const isSelected = day.getDate() === currentDate.getDate() && day.getMonth() === currentDate.getMonth();
+          const isSelected = day.toDateString() === currentDate.toDateString();
           const dayName = day.toLocaleDateString('en-US', { weekday: 'short' });
           const dayNum = day.getDate();
+          const hasNotes = noteDates?.has(day.toDateString()) ?? false;
           
           return (
             <button 
               key={idx}
               data-selected={isSelected}
               onClick={() => onSelectDate(day)}
+              aria-label={hasNotes ? `${day.toDateString()}, has notes` : undefined}
               className={`
-                flex-shrink-0 snap-center flex flex-col items-center justify-center 
+                relative flex-shrink-0 snap-center flex flex-col items-center justify-center 
                 w-14 h-16 rounded-xl transition-all duration-200 border
                 ${isSelected 
                   ? "bg-blue-600 dark:bg-blue-500 border-blue-600 dark:border-blue-500 text-white shadow-lg shadow-blue-200 dark:shadow-blue-900/50 scale-105" 
@@ -51,6 +54,9 @@ export const DateSelector: React.FC<DateSelectorProps> = ({ currentDate, onSelec
               <span className={`text-xl font-bold ${isSelected ? "text-white" : "text-gray-900 dark:text-gray-100"}`}>
                 {dayNum}
               </span>
+              {hasNotes && (
+                <span className={`absolute top-1.5 right-1.5 w-1.5 h-1.5 rounded-full ${isSelected ? "bg-white" : "bg-sky-500 dark:bg-sky-400"}`} />
+              )}
             </button>
           );
         })}
@@ -0,0 +1,138 @@
+import React, { useMemo } from 'react';
+import { DaySchedule } from '../types';
+import { addDays, getWeekStart } from '../services/termService';
+import { isAssessmentSubject } from '../services/subjectService';
+import { ChevronLeft, ChevronRight } from 'lucide-react';
+
+interface MonthCalendarProps {
+  timetableData: DaySchedule[];
+  currentDate: Date;
+  onChangeMonth: (date: Date) => void;
+  onSelectDate: (date: Date) => void;
+  isDarkMode: boolean;
+}
+
+const WEEKDAY_LABELS = ['Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat', 'Sun'];
+
+// Show at most this many dots per day; busier days show the count instead
+const MAX_DOTS = 4;
+
+export const MonthCalendar: React.FC<MonthCalendarProps> = ({ timetableData, currentDate, onChangeMonth, onSelectDate, isDarkMode }) => {
+  const monthStart = useMemo(
+    () => new Date(currentDate.getFullYear(), currentDate.getMonth(), 1),
+    [currentDate]
+  );
+
+  // Full weeks (Mon-Sun) covering the month
+  const calendarDays = useMemo(() => {
+    const first = getWeekStart(monthStart);
+    const monthEnd = new Date(monthStart.getFullYear(), monthStart.getMonth() + 1, 0);
+    const days: Date[] = [];
+    for (let day = first; day <= monthEnd || days.length % 7 !== 0; day = addDays(day, 1)) {
+      days.push(day);
+    }
+    return days;
+  }, [monthStart]);
+
+  // Slot count and assessment flag per date
+  const dayStats = useMemo(() => {
+    const map = new Map<string, { count: number; hasAssessment: boolean }>();
+    timetableData.forEach((day) => {
+      map.set(day.dateObj.toDateString(), {
+        count: day.slots.length,
+        hasAssessment: day.slots.some((slot) => isAssessmentSubject(slot.subject)),
+      });
+    });
+    return map;
+  }, [timetableData]);
+
+  const todayStr = new Date().toDateString();
+  const selectedStr = currentDate.toDateString();
+  const monthLabel = monthStart.toLocaleDateString('en-US', { month: 'long', year: 'numeric' });
+
+  const goToMonth = (offset: number) => {
+    onChangeMonth(new Date(monthStart.getFullYear(), monthStart.getMonth() + offset, 1));
+  };
+
+  return (
+    <div className="animate-in fade-in duration-300">
+      <div className="flex items-center justify-between mb-3">
+        <button
+          onClick={() => goToMonth(-1)}
+          className="p-2 rounded-full hover:bg-gray-100 dark:hover:bg-gray-800 transition-colors active:scale-95"
+          aria-label="Previous month"
+        >
+          <ChevronLeft className="w-5 h-5 text-gray-600 dark:text-gray-400" />
+        </button>
+        <span className="text-sm font-semibold text-gray-700 dark:text-gray-300 transition-colors duration-300">{monthLabel}</span>
+        <button
+          onClick={() => goToMonth(1)}
+          className="p-2 rounded-full hover:bg-gray-100 dark:hover:bg-gray-800 transition-colors active:scale-95"
+          aria-label="Next month"
+        >
+          <ChevronRight className="w-5 h-5 text-gray-600 dark:text-gray-400" />
+        </button>
+      </div>
+
+      <div className="grid grid-cols-7 gap-1">
+        {WEEKDAY_LABELS.map((label) => (
+          <div key={label} className="text-center text-[10px] font-medium uppercase text-gray-400 dark:text-gray-500 pb-1">
+            {label}
+          </div>
+        ))}
+
+        {calendarDays.map((day) => {
+          const key = day.toDateString();
+          const stats = dayStats.get(key);
+          const inMonth = day.getMonth() === monthStart.getMonth();
+          const isSelected = key === selectedStr;
+          const isToday = key === todayStr;
+
+          return (
+            <button
+              key={key}
+              onClick={() => onSelectDate(day)}
+              className={`relative h-14 flex flex-col items-center justify-start pt-1.5 rounded-xl border transition-all duration-200 active:scale-95 ${
+                isSelected
+                  ? 'bg-blue-600 dark:bg-blue-500 border-blue-600 dark:border-blue-500 text-white'
+                  : stats
+                    ? 'bg-white dark:bg-gray-800 border-gray-100 dark:border-gray-700 text-gray-900 dark:text-gray-100'
+                    : 'bg-transparent border-transparent text-gray-300 dark:text-gray-600'
+              } ${inMonth ? '' : 'opacity-40'} ${isToday && !isSelected ? 'ring-2 ring-blue-400 dark:ring-blue-500' : ''}`}
+              aria-label={`${day.toLocaleDateString('en-US', { weekday: 'long', month: 'long', day: 'numeric' })}: ${stats ? `${stats.count} classes` : 'no classes'}${stats?.hasAssessment ? ', assessment' : ''}`}
+            >
+              <span className="text-sm font-bold">{day.getDate()}</span>
+
+              {stats && (
+                <div className="flex items-center gap-0.5 mt-1">
+                  {stats.count <= MAX_DOTS ? (
+                    Array.from({ length: stats.count }, (_, i) => (
+                      <span
+                        key={i}
+                        className={`w-1 h-1 rounded-full ${isSelected ? 'bg-blue-100' : 'bg-blue-500 dark:bg-blue-400'}`}
+                      />
+                    ))
+                  ) : (
+                    <span className={`text-[10px] font-semibold ${isSelected ? 'text-blue-100' : 'text-blue-600 dark:text-blue-400'}`}>
+                      {stats.count}
+                    </span>
+                  )}
+                </div>
+              )}
+
+              {/* Assessment marker */}
+              {stats?.hasAssessment && (
+                <span className="absolute top-1 right-1 w-2 h-2 rounded-full bg-red-500 dark:bg-red-400 ring-2 ring-white dark:ring-gray-800" />
+              )}
+            </button>
+          );
+        })}
+      </div>
+
+      <div className="mt-4 flex items-center justify-center gap-4 text-xs text-gray-400 dark:text-gray-500 transition-colors duration-300">
+        <span className="flex items-center gap-1.5"><span className="w-1.5 h-1.5 rounded-full bg-blue-500 dark:bg-blue-400" />Class</span>
+        <span className="flex items-center gap-1.5"><span className="w-2 h-2 rounded-full bg-red-500 dark:bg-red-400" />Quiz / Exam</span>
+      </div>
+    </div>
+  );
+};
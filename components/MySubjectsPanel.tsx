@@ -0,0 +1,123 @@
+import React, { useState } from 'react';
+import { Section } from '../types';
+import { Check, X } from 'lucide-react';
+
+interface MySubjectsPanelProps {
+  section: Section;
+  sections: Section[]; // All sections in view; tabs are shown when there is more than one
+  onSwitchSection: (section: Section) => void;
+  subjects: string[];
+  hiddenSubjects: string[];
+  isFirstRun: boolean; // Shown right after picking a section
+  onSave: (hiddenSubjects: string[]) => void;
+  onClose: () => void;
+}
+
+export const MySubjectsPanel: React.FC<MySubjectsPanelProps> = ({ section, sections, onSwitchSection, subjects, hiddenSubjects, isFirstRun, onSave, onClose }) => {
+  const [hidden, setHidden] = useState(hiddenSubjects);
+  const selectedCount = subjects.filter((subject) => !hidden.includes(subject)).length;
+
+  const toggle = (subject: string) => {
+    setHidden((prev) => prev.includes(subject) ? prev.filter((s) => s !== subject) : [...prev, subject]);
+  };
+
+  const handleSave = () => {
+    // Only remember subjects that still exist in the timetable
+    onSave(hidden.filter((subject) => subjects.includes(subject)));
+    onClose();
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-end sm:items-center justify-center bg-black/40 p-4" onClick={onClose}>
+      <div
+        className="w-full max-w-md max-h-[90vh] flex flex-col bg-white dark:bg-gray-800 rounded-2xl shadow-xl p-5 border border-gray-100 dark:border-gray-700 animate-in slide-in-from-bottom-4 duration-300 transition-colors"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between mb-1">
+          <h3 className="text-lg font-bold text-gray-900 dark:text-gray-100 transition-colors duration-300">My subjects</h3>
+          <button
+            onClick={onClose}
+            className="p-2 -mr-2 rounded-full hover:bg-gray-100 dark:hover:bg-gray-700 transition-colors active:scale-95"
+            aria-label="Close subject selection"
+          >
+            <X className="w-5 h-5 text-gray-500 dark:text-gray-400" />
+          </button>
+        </div>
+        <p className="text-xs text-gray-500 dark:text-gray-400 mb-3 transition-colors duration-300">
+          {isFirstRun
+            ? `Pick the subjects you attend in Section ${section}. Only these will appear in your schedule, alarms and exports.`
+            : `${selectedCount} of ${subjects.length} subjects selected`}
+        </p>
+
+        {sections.length > 1 && (
+          <div className="flex p-1 mb-3 bg-gray-100 dark:bg-gray-700/60 rounded-xl transition-colors duration-300">
+            {sections.map((s) => (
+              <button
+                key={s}
+                onClick={() => onSwitchSection(s)}
+                className={`flex-1 py-1 text-sm font-semibold rounded-lg transition-all duration-300 ${
+                  s === section
+                    ? 'bg-white dark:bg-gray-800 text-gray-900 dark:text-gray-100 shadow-sm'
+                    : 'text-gray-500 dark:text-gray-400'
+                }`}
+              >
+                {s}
+              </button>
+            ))}
+          </div>
+        )}
+
+        <div className="flex gap-2 mb-3">
+          <button
+            onClick={() => setHidden([])}
+            className="text-xs font-semibold text-blue-600 dark:text-blue-400 hover:underline"
+          >
+            Select all
+          </button>
+          <span className="text-xs text-gray-300 dark:text-gray-600">·</span>
+          <button
+            onClick={() => setHidden(subjects)}
+            className="text-xs font-semibold text-blue-600 dark:text-blue-400 hover:underline"
+          >
+            Clear
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto -mx-1 px-1 space-y-1.5 mb-4">
+          {subjects.map((subject) => {
+            const isSelected = !hidden.includes(subject);
+            return (
+              <button
+                key={subject}
+                onClick={() => toggle(subject)}
+                className={`w-full flex items-center gap-3 px-3 py-2.5 rounded-xl border text-sm font-medium text-left transition-all duration-200 active:scale-[0.98] ${
+                  isSelected
+                    ? 'bg-blue-50 dark:bg-blue-900/30 border-blue-100 dark:border-blue-800 text-blue-900 dark:text-blue-100'
+                    : 'bg-gray-50 dark:bg-gray-700/60 border-gray-100 dark:border-gray-600 text-gray-500 dark:text-gray-400'
+                }`}
+                aria-pressed={isSelected}
+              >
+                <span className={`w-5 h-5 flex items-center justify-center rounded-md border ${
+                  isSelected
+                    ? 'bg-blue-600 dark:bg-blue-500 border-blue-600 dark:border-blue-500 text-white'
+                    : 'border-gray-300 dark:border-gray-500'
+                }`}>
+                  {isSelected && <Check className="w-3.5 h-3.5" />}
+                </span>
+                {subject}
+              </button>
+            );
+          })}
+        </div>
+
+        <button
+          onClick={handleSave}
+          disabled={selectedCount === 0}
+          className="w-full py-2.5 bg-blue-600 dark:bg-blue-500 text-white text-sm font-semibold rounded-xl hover:bg-blue-700 dark:hover:bg-blue-600 transition-colors duration-300 active:scale-95 disabled:opacity-40"
+        >
+          {isFirstRun ? 'Continue' : 'Save'}
+        </button>
+      </div>
+    </div>
+  );
+};
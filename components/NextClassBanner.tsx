@@ -0,0 +1,27 @@
+import React from 'react';
+import { TimeSlot } from '../types';
+import { formatMinutes, getClassTiming } from '../services/timeService';
+import { ArrowRight } from 'lucide-react';
+
+interface NextClassBannerProps {
+  slots: TimeSlot[];
+  date: Date;
+  now: Date;
+}
+
+export const NextClassBanner: React.FC<NextClassBannerProps> = ({ slots, date, now }) => {
+  const next = slots
+    .map((slot) => ({ slot, timing: getClassTiming(date, slot.startTime, slot.endTime, now) }))
+    .find(({ timing }) => timing.status === 'upcoming');
+
+  if (!next) return null;
+
+  return (
+    <div className="flex items-center gap-2 px-4 py-3 rounded-xl bg-blue-50 dark:bg-blue-900/30 border border-blue-100 dark:border-blue-800 text-sm text-blue-900 dark:text-blue-200 transition-colors duration-300">
+      <ArrowRight className="w-4 h-4 flex-shrink-0 text-blue-600 dark:text-blue-400" />
+      <span className="font-semibold">Next:</span>
+      <span className="truncate">{next.slot.subject}</span>
+      <span className="ml-auto flex-shrink-0 font-mono text-xs font-bold">in {formatMinutes(next.timing.minutesToStart)}</span>
+    </div>
+  );
+};
@@ -0,0 +1,155 @@
+import React, { useState } from 'react';
+import { ReminderSettings, formatReminderOffsets } from '../services/alarmService';
+import { X } from 'lucide-react';
+
+interface ReminderSettingsPanelProps {
+  settings: ReminderSettings;
+  subjects: string[];
+  mutedSubjects: string[];
+  onSave: (settings: ReminderSettings, mutedSubjects: string[]) => void;
+  onClose: () => void;
+}
+
+// Lead times offered in the picker, in minutes before class
+const OFFSET_OPTIONS = [2, 5, 10, 15, 20, 30, 45, 60];
+
+interface OffsetPickerProps {
+  label: string;
+  selected: number[];
+  onChange: (offsets: number[]) => void;
+}
+
+const OffsetPicker: React.FC<OffsetPickerProps> = ({ label, selected, onChange }) => {
+  const toggle = (offset: number) => {
+    const next = selected.includes(offset)
+      ? selected.filter((o) => o !== offset)
+      : [...selected, offset];
+    // Always keep at least one reminder
+    if (next.length > 0) {
+      onChange(next.sort((a, b) => b - a));
+    }
+  };
+
+  return (
+    <div className="mb-4">
+      <p className="text-sm font-semibold text-gray-900 dark:text-gray-100 mb-1 transition-colors duration-300">{label}</p>
+      <p className="text-xs text-gray-500 dark:text-gray-400 mb-2 transition-colors duration-300">{formatReminderOffsets(selected)}</p>
+      <div className="flex flex-wrap gap-2">
+        {OFFSET_OPTIONS.map((offset) => {
+          const isSelected = selected.includes(offset);
+          return (
+            <button
+              key={offset}
+              onClick={() => toggle(offset)}
+              className={`px-3 py-1.5 rounded-lg text-sm font-medium border transition-all duration-200 active:scale-95 ${
+                isSelected
+                  ? 'bg-amber-100 dark:bg-amber-900/40 border-amber-200 dark:border-amber-700 text-amber-800 dark:text-amber-200'
+                  : 'bg-gray-50 dark:bg-gray-700/60 border-gray-100 dark:border-gray-600 text-gray-600 dark:text-gray-300'
+              }`}
+              aria-pressed={isSelected}
+            >
+              {offset} min
+            </button>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+export const ReminderSettingsPanel: React.FC<ReminderSettingsPanelProps> = ({ settings, subjects, mutedSubjects, onSave, onClose }) => {
+  const [offsets, setOffsets] = useState(settings.offsets);
+  const [examOffsets, setExamOffsets] = useState<number[] | null>(settings.examOffsets);
+  const [muted, setMuted] = useState(mutedSubjects);
+  const [assessmentDayBefore, setAssessmentDayBefore] = useState(settings.assessmentDayBefore);
+
+  const toggleMuted = (subject: string) => {
+    setMuted((prev) => prev.includes(subject) ? prev.filter((s) => s !== subject) : [...prev, subject]);
+  };
+
+  const handleSave = () => {
+    onSave({ offsets, examOffsets, assessmentDayBefore }, muted);
+    onClose();
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-end sm:items-center justify-center bg-black/40 p-4" onClick={onClose}>
+      <div
+        className="w-full max-w-md max-h-[90vh] overflow-y-auto bg-white dark:bg-gray-800 rounded-2xl shadow-xl p-5 border border-gray-100 dark:border-gray-700 animate-in slide-in-from-bottom-4 duration-300 transition-colors"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between mb-4">
+          <h3 className="text-lg font-bold text-gray-900 dark:text-gray-100 transition-colors duration-300">Reminders</h3>
+          <button
+            onClick={onClose}
+            className="p-2 -mr-2 rounded-full hover:bg-gray-100 dark:hover:bg-gray-700 transition-colors active:scale-95"
+            aria-label="Close reminder settings"
+          >
+            <X className="w-5 h-5 text-gray-500 dark:text-gray-400" />
+          </button>
+        </div>
+
+        <OffsetPicker label="Classes" selected={offsets} onChange={setOffsets} />
+
+        <label className="flex items-center gap-2 mb-4 text-sm text-gray-700 dark:text-gray-300 transition-colors duration-300">
+          <input
+            type="checkbox"
+            checked={examOffsets !== null}
+            onChange={(e) => setExamOffsets(e.target.checked ? offsets : null)}
+            className="w-4 h-4 rounded accent-amber-600"
+          />
+          Different reminders for quizzes and exams
+        </label>
+
+        {examOffsets && (
+          <OffsetPicker label="Quizzes & exams" selected={examOffsets} onChange={setExamOffsets} />
+        )}
+
+        <label className="flex items-center gap-2 mb-4 text-sm text-gray-700 dark:text-gray-300 transition-colors duration-300">
+          <input
+            type="checkbox"
+            checked={assessmentDayBefore}
+            onChange={(e) => setAssessmentDayBefore(e.target.checked)}
+            className="w-4 h-4 rounded accent-amber-600"
+          />
+          Remind me the day before quizzes and exams
+        </label>
+
+        {subjects.length > 0 && (
+          <div className="mb-4">
+            <p className="text-sm font-semibold text-gray-900 dark:text-gray-100 mb-1 transition-colors duration-300">Subjects</p>
+            <p className="text-xs text-gray-500 dark:text-gray-400 mb-2 transition-colors duration-300">
+              Tap to mute a subject when the master alarm is on
+            </p>
+            <div className="flex flex-wrap gap-2 max-h-40 overflow-y-auto">
+              {subjects.map((subject) => {
+                const isMuted = muted.includes(subject);
+                return (
+                  <button
+                    key={subject}
+                    onClick={() => toggleMuted(subject)}
+                    className={`px-3 py-1.5 rounded-lg text-xs font-medium border transition-all duration-200 active:scale-95 ${
+                      isMuted
+                        ? 'bg-gray-50 dark:bg-gray-700/60 border-gray-100 dark:border-gray-600 text-gray-400 dark:text-gray-500 line-through'
+                        : 'bg-amber-50 dark:bg-amber-900/30 border-amber-100 dark:border-amber-800 text-amber-800 dark:text-amber-200'
+                    }`}
+                    aria-pressed={!isMuted}
+                  >
+                    {subject}
+                  </button>
+                );
+              })}
+            </div>
+          </div>
+        )}
+
+        <button
+          onClick={handleSave}
+          className="w-full py-2.5 bg-blue-600 dark:bg-blue-500 text-white text-sm font-semibold rounded-xl hover:bg-blue-700 dark:hover:bg-blue-600 transition-colors duration-300 active:scale-95"
+        >
+          Save
+        </button>
+      </div>
+    </div>
+  );
+};
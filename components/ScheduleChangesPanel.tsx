@@ -0,0 +1,58 @@
+import React from 'react';
+import { ScheduleChange } from '../types';
+import { describeScheduleChange } from '../services/diffService';
+import { ArrowRightLeft, CalendarPlus, CalendarMinus, X } from 'lucide-react';
+
+interface ScheduleChangesPanelProps {
+  changes: ScheduleChange[];
+  onDismiss: () => void;
+  onSelectDate: (date: Date) => void;
+}
+
+const getChangeIcon = (change: ScheduleChange) => {
+  switch (change.type) {
+    case 'added':
+      return <CalendarPlus className="w-4 h-4 text-emerald-600 dark:text-emerald-400" />;
+    case 'removed':
+      return <CalendarMinus className="w-4 h-4 text-red-600 dark:text-red-400" />;
+    case 'rescheduled':
+      return <ArrowRightLeft className="w-4 h-4 text-amber-600 dark:text-amber-400" />;
+  }
+};
+
+export const ScheduleChangesPanel: React.FC<ScheduleChangesPanelProps> = ({ changes, onDismiss, onSelectDate }) => {
+  if (changes.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="mb-4 p-4 bg-amber-50 dark:bg-amber-900/20 rounded-2xl border border-amber-100 dark:border-amber-800 shadow-sm animate-in fade-in slide-in-from-top-2 duration-300 transition-colors">
+      <div className="flex items-center justify-between mb-2">
+        <p className="text-sm font-bold text-amber-900 dark:text-amber-200 transition-colors duration-300">
+          Schedule changes ({changes.length})
+        </p>
+        <button
+          onClick={onDismiss}
+          className="p-1 rounded-lg text-amber-700 dark:text-amber-300 hover:bg-amber-100 dark:hover:bg-amber-900/40 transition-colors active:scale-95"
+          aria-label="Dismiss schedule changes"
+        >
+          <X className="w-4 h-4" />
+        </button>
+      </div>
+
+      <ul className="space-y-1.5 max-h-48 overflow-y-auto">
+        {changes.map((change, idx) => (
+          <li key={idx}>
+            <button
+              onClick={() => onSelectDate(change.date)}
+              className="w-full flex items-start gap-2 text-left text-xs text-amber-900 dark:text-amber-100 hover:underline transition-colors duration-300"
+            >
+              <span className="mt-0.5 flex-shrink-0">{getChangeIcon(change)}</span>
+              <span>{describeScheduleChange(change)}</span>
+            </button>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+};
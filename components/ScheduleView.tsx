@@ -1,43 +1,69 @@
-import React, { useState, useEffect, useMemo } from 'react';
-import { Section, DaySchedule } from '../types';
+import React, { useState, useEffect, useMemo, useRef } from 'react';
+import { Section, SelectedBatch, DaySchedule, AcademicTerm, ScheduleChange, TimeSlot } from '../types';
 import { fetchTimetable } from '../services/sheetService';
+import { createTimetableSource, getActiveSourceConfig } from '../services/sourceService';
+import { getAllBatches, getBatchId, getSectionStorageKey, getSectionTemplate } from '../services/programmeService';
+import { getAcademicTerm, getScheduleDateRange } from '../services/termService';
+import { getCachedTimetable, saveTimetableToCache } from '../services/cacheService';
+import {
+  clearPendingScheduleChanges,
+  getPendingScheduleChanges,
+  registerPeriodicRefresh,
+  saveBackgroundSyncConfig,
+  saveBackgroundSyncHiddenSubjects,
+} from '../services/backgroundSyncService';
+import { diffTimetables } from '../services/diffService';
+import { findClashingSlots, mergeSectionTimetables } from '../services/mergeService';
+import { getUpcomingAssessments } from '../services/assessmentService';
+import { AttendanceRecord, AttendanceStatus, getAllAttendance, getCourseAttendance, remapAttendance, saveAttendance } from '../services/attendanceService';
+import { ClassNote, ClassNoteContent, getAllNotes, getNoteDates, isNoteEmpty, remapNotes, saveNote } from '../services/notesService';
+import { EMPTY_SEARCH_FILTERS, SearchFilters, hasActiveSearch, searchSchedule } from '../services/searchService';
+import { ErrorDescription, describeTimetableError, isConnectionError } from '../services/errorService';
+import { downloadICalendar } from '../services/calendarExportService';
+import { filterScheduleBySubjects, getClassIdSubject, getHiddenSubjects, getSubjectOptions, isAssessmentSubject, saveHiddenSubjects } from '../services/subjectService';
 import { DateSelector } from './DateSelector';
 import { ClassCard } from './ClassCard';
-import { ChevronLeft, Moon, Sun, Loader2, CalendarX, AlertTriangle, Bell, BellOff } from 'lucide-react';
+import { SyncStatusBadge } from './SyncStatusBadge';
+import { WeekView } from './WeekView';
+import { MonthCalendar } from './MonthCalendar';
+import { ReminderSettingsPanel } from './ReminderSettingsPanel';
+import { ScheduleChangesPanel } from './ScheduleChangesPanel';
+import { NextClassBanner } from './NextClassBanner';
+import { MySubjectsPanel } from './MySubjectsPanel';
+import { SearchBar } from './SearchBar';
+import { SearchResults } from './SearchResults';
+import { AssessmentsView } from './AssessmentsView';
+import { StatisticsView } from './StatisticsView';
+import { AttendanceView } from './AttendanceView';
+import { ChevronLeft, Moon, Sun, Loader2, CalendarX, AlertTriangle, Bell, BellOff, CalendarArrowDown, AlarmClock, ListChecks, ClipboardList, UserCheck } from 'lucide-react';
 import { 
   requestNotificationPermission, 
-  scheduleAlarm, 
-  cancelAllAlarms,
-  cancelAlarm,
-  parseTimeString, 
-  calculateAlarmTime,
+  reconcileTimetableAlarms,
+  isClassAlarmEnabled,
   generateAlarmId,
-  AlarmInfo
+  remapAlarmIds,
+  remapAlarmOptOuts,
+  notifyAlarmScheduleChanges,
+  getReminderSettings,
+  saveReminderSettings,
+  getReminderOffsets,
+  formatReminderOffsets,
+  AlarmOptOuts,
+  AlarmSelection,
+  EMPTY_ALARM_OPT_OUTS,
+  ReminderSettings
 } from '../services/alarmService';
 
 interface ScheduleViewProps {
-  section: Section;
+  batch: SelectedBatch;
+  sections: Section[];
   onBack: () => void;
   isDarkMode: boolean;
   onToggleDarkMode: () => void;
 }
 
-// Generate a static range of dates for the semester (Oct 2025 - Mar 2026)
-const generateSemesterDates = () => {
-  const dates: Date[] = [];
-  const start = new Date(2025, 9, 1); // Oct 1, 2025
-  const end = new Date(2026, 2, 31);  // Mar 31, 2026 (Month is 0-indexed)
-  
-  const current = new Date(start);
-  while (current <= end) {
-    dates.push(new Date(current));
-    current.setDate(current.getDate() + 1);
-  }
-  return dates;
-};
-
 // Helper function to get today's date if it's within the semester range, otherwise return the first date
-const getInitialDate = (allDates: Date[]): Date => {
+const getInitialDate = (allDates: Date[], term: AcademicTerm): Date => {
   const today = new Date();
   today.setHours(0, 0, 0, 0); // Reset time to midnight for comparison
   
@@ -49,22 +75,70 @@ const getInitialDate = (allDates: Date[]): Date => {
   });
   
   // Return today if it's in range, otherwise return the first date
-  return todayInRange || allDates[0] || new Date("December 2, 2025");
+  return todayInRange || allDates[0] || new Date(term.start);
 };
 
 const ALARM_STORAGE_KEY = 'timetable_alarms';
 const MASTER_ALARM_KEY = 'timetable_master_alarm';
+const ALARM_OPT_OUTS_KEY = 'timetable_alarm_opt_outs';
+const VIEW_MODE_KEY = 'timetable_view_mode';
+
+// How often the in-progress highlight and "Next" banner refresh
+const CLOCK_TICK_MS = 30 * 1000;
+
+type ViewMode = 'day' | 'week' | 'month' | 'stats';
+const VIEW_MODES: ViewMode[] = ['day', 'week', 'month', 'stats'];
 
-export const ScheduleView: React.FC<ScheduleViewProps> = ({ section, onBack, isDarkMode, onToggleDarkMode }) => {
-  const [timetableData, setTimetableData] = useState<DaySchedule[]>([]);
+export const ScheduleView: React.FC<ScheduleViewProps> = ({ batch, sections, onBack, isDarkMode, onToggleDarkMode }) => {
+  // The first section drives the week grid rows and export naming
+  const section = sections[0];
+  const sectionsKey = `${getBatchId(batch)}:${sections.join(',')}`;
+  // Cached copies and subject choices are stored per batch and section
+  const storageKey = (s: Section) => getSectionStorageKey(batch, s);
+  const showBatchName = getAllBatches().length > 1;
+  const [sectionTimetables, setSectionTimetables] = useState<Partial<Record<Section, DaySchedule[]>>>({});
   const [loading, setLoading] = useState(true);
-  const [error, setError] = useState<string | null>(null);
+  const [error, setError] = useState<ErrorDescription | null>(null);
+  // Why revalidation failed while the cached copy stays on screen (other than being offline)
+  const [refreshError, setRefreshError] = useState<ErrorDescription | null>(null);
+  const [lastSynced, setLastSynced] = useState<Date | null>(null);
+  const [isOffline, setIsOffline] = useState(() => !navigator.onLine);
+  const [isRefreshing, setIsRefreshing] = useState(false);
+  const [syncRequest, setSyncRequest] = useState(0);
+  const [scheduleChanges, setScheduleChanges] = useState<ScheduleChange[]>([]);
+  const [reminderSettings, setReminderSettings] = useState<ReminderSettings>(() => getReminderSettings());
+  const [showReminderSettings, setShowReminderSettings] = useState(false);
+  const [viewMode, setViewMode] = useState<ViewMode>(() => {
+    const saved = localStorage.getItem(VIEW_MODE_KEY) as ViewMode | null;
+    return saved && VIEW_MODES.includes(saved) ? saved : 'day';
+  });
+  const [now, setNow] = useState(() => new Date());
+  // Subjects unticked in "My subjects" per section; null until the student has set it up for that section
+  const [hiddenSubjects, setHiddenSubjects] = useState<Partial<Record<Section, string[] | null>>>(
+    () => Object.fromEntries(sections.map((s) => [s, getHiddenSubjects(storageKey(s))]))
+  );
+  const [mySubjectsSection, setMySubjectsSection] = useState<Section | null>(null);
+  const [searchQuery, setSearchQuery] = useState('');
+  const [searchFilters, setSearchFilters] = useState<SearchFilters>(EMPTY_SEARCH_FILTERS);
+  const [showAssessments, setShowAssessments] = useState(false);
+  const [attendance, setAttendance] = useState<Map<string, AttendanceRecord>>(new Map());
+  const [showAttendance, setShowAttendance] = useState(false);
+  const [notes, setNotes] = useState<Map<string, ClassNote>>(new Map());
+
+  // All selected sections as one schedule, each slot tagged with its section
+  const timetableData = useMemo(
+    () => mergeSectionTimetables(sections.map((s) => ({ section: s, data: sectionTimetables[s] ?? [] }))),
+    [sectionsKey, sectionTimetables]
+  );
   
-  // Memoize the calendar days so we don't regenerate them on every render
-  const allDates = useMemo(() => generateSemesterDates(), []);
+  // Resolve the academic term once; sheet dates without a year are placed inside it
+  const term = useMemo(() => getAcademicTerm(), []);
+
+  // Calendar days span the term, widened to cover any fetched dates outside it
+  const allDates = useMemo(() => getScheduleDateRange(term, timetableData), [term, timetableData]);
   
   // Initialize with today's date (if in range) or first available date
-  const [currentDate, setCurrentDate] = useState(() => getInitialDate(allDates));
+  const [currentDate, setCurrentDate] = useState(() => getInitialDate(allDates, term));
   
   // Alarm state management
   const [masterAlarmEnabled, setMasterAlarmEnabled] = useState(() => {
@@ -83,16 +157,73 @@ export const ScheduleView: React.FC<ScheduleViewProps> = ({ section, onBack, isD
     }
     return new Set();
   });
+
+  const [alarmOptOuts, setAlarmOptOuts] = useState<AlarmOptOuts>(() => {
+    const saved = localStorage.getItem(ALARM_OPT_OUTS_KEY);
+    if (saved) {
+      try {
+        return { ...EMPTY_ALARM_OPT_OUTS, ...JSON.parse(saved) };
+      } catch {
+        return EMPTY_ALARM_OPT_OUTS;
+      }
+    }
+    return EMPTY_ALARM_OPT_OUTS;
+  });
+
+  const alarmSelection = useMemo<AlarmSelection>(
+    () => ({ masterAlarmEnabled, enabledAlarms, optOuts: alarmOptOuts, reminderSettings }),
+    [masterAlarmEnabled, enabledAlarms, alarmOptOuts, reminderSettings]
+  );
+
+  // Latest alarm selections, readable from async sync callbacks without re-running them
+  const alarmSelectionRef = useRef(alarmSelection);
+  alarmSelectionRef.current = alarmSelection;
   
-  // Reset to today's date when section changes
+  // Reset to today's date when the selected sections change
   useEffect(() => {
-    const todayDate = getInitialDate(allDates);
+    const todayDate = getInitialDate(allDates, term);
     setCurrentDate(todayDate);
-  }, [section, allDates]);
+    setHiddenSubjects(Object.fromEntries(sections.map((s) => [s, getHiddenSubjects(storageKey(s))])));
+  }, [sectionsKey]);
 
-  // Request notification permission on mount
+  // Only the subjects the student attends are shown, alarmed and exported
+  const visibleTimetable = useMemo(
+    () => mergeSectionTimetables(sections.map((s) => ({
+      section: s,
+      data: filterScheduleBySubjects(sectionTimetables[s] ?? [], hiddenSubjects[s] ?? []),
+    }))),
+    [sectionsKey, sectionTimetables, hiddenSubjects]
+  );
+  const subjectOptions = useMemo(
+    () => Object.fromEntries(sections.map((s) => [s, getSubjectOptions(sectionTimetables[s] ?? [])])) as Partial<Record<Section, string[]>>,
+    [sectionsKey, sectionTimetables]
+  );
+
+  // Ask for "My subjects" the first time each section's timetable is available
+  useEffect(() => {
+    if (loading || mySubjectsSection) return;
+    const unset = sections.find((s) => hiddenSubjects[s] === null && (sectionTimetables[s]?.length ?? 0) > 0);
+    if (unset) {
+      setMySubjectsSection(unset);
+    }
+  }, [loading, sectionTimetables, hiddenSubjects]);
+
+  // Request notification permission and background refreshes on mount
   useEffect(() => {
     requestNotificationPermission();
+    if ('serviceWorker' in navigator) {
+      navigator.serviceWorker.ready.then(registerPeriodicRefresh);
+    }
+  }, []);
+
+  // Load attendance marks and class notes on mount
+  useEffect(() => {
+    getAllAttendance()
+      .then(setAttendance)
+      .catch(err => console.error('Error loading attendance:', err));
+    getAllNotes()
+      .then(setNotes)
+      .catch(err => console.error('Error loading notes:', err));
   }, []);
 
   // Save enabled alarms to localStorage
@@ -100,38 +231,174 @@ export const ScheduleView: React.FC<ScheduleViewProps> = ({ section, onBack, isD
     localStorage.setItem(ALARM_STORAGE_KEY, JSON.stringify(Array.from(enabledAlarms)));
   }, [enabledAlarms]);
 
+  // Save day/week view preference
+  useEffect(() => {
+    localStorage.setItem(VIEW_MODE_KEY, viewMode);
+  }, [viewMode]);
+
+  // Save alarm opt-outs
+  useEffect(() => {
+    localStorage.setItem(ALARM_OPT_OUTS_KEY, JSON.stringify(alarmOptOuts));
+  }, [alarmOptOuts]);
+
   // Save master alarm state
   useEffect(() => {
     localStorage.setItem(MASTER_ALARM_KEY, String(masterAlarmEnabled));
   }, [masterAlarmEnabled]);
 
+  // Render from the local cache first, then revalidate against the sheet in the background
   useEffect(() => {
+    // Aborted when the sections change or a retry starts, so stale requests stop early
+    const controller = new AbortController();
+    const { signal } = controller;
+
     const loadData = async () => {
-      setLoading(true);
       setError(null);
+      setRefreshError(null);
+      setIsRefreshing(true);
+
+      const sourceConfig = getActiveSourceConfig(batch);
+      const source = createTimetableSource(sourceConfig);
+      const cachedList = await Promise.all(sections.map((s) => getCachedTimetable(storageKey(s), source.key)));
+      // Changes a background refresh already applied to the cached copies while the app was closed
+      const pendingList = await Promise.all(sections.map((s) => getPendingScheduleChanges(storageKey(s), source.key)));
+      if (signal.aborted) return;
+
+      // Carry selected and muted alarms, attendance and notes over to the classes' new slots
+      const applyScheduleChanges = async (changes: ScheduleChange[]) => {
+        setEnabledAlarms(prev => remapAlarmIds(prev, changes));
+        setAlarmOptOuts(prev => remapAlarmOptOuts(prev, changes));
+        await remapAttendance(changes);
+        setAttendance(await getAllAttendance());
+        await remapNotes(changes);
+        setNotes(await getAllNotes());
+      };
+
+      // Only render from cache when every selected section has a cached copy
+      const hasCache = cachedList.every((cached) => cached !== null);
+      if (hasCache) {
+        setSectionTimetables(Object.fromEntries(sections.map((s, i) => [s, cachedList[i]!.data])));
+        setLastSynced(new Date(Math.min(...cachedList.map((cached) => cached!.syncedAt.getTime()))));
+        setLoading(false);
+      } else {
+        setSectionTimetables({});
+        setLastSynced(null);
+        setLoading(true);
+      }
+      setScheduleChanges([]);
+
+      const pendingChanges = pendingList.flat();
+      if (pendingChanges.length > 0) {
+        // The service worker already sent the notification and moved the stored alarms
+        setScheduleChanges(pendingChanges);
+        await applyScheduleChanges(pendingChanges);
+        await clearPendingScheduleChanges(sections.map((s) => storageKey(s)));
+        if (signal.aborted) return;
+      }
+
       try {
-        const data = await fetchTimetable(section);
-        console.log(`Loaded ${data.length} days of timetable data for section ${section}`);
-        if (data.length === 0) {
-          console.warn("Timetable data is empty. This might indicate a parsing issue or the sheet has no data.");
+        const fetched = await Promise.all(sections.map((s) => fetchTimetable(s, source, term, batch.batch, signal)));
+        if (signal.aborted) return;
+        fetched.forEach((data, i) => {
+          console.log(`Loaded ${data.length} days of timetable data for section ${sections[i]}`);
+          if (data.length === 0) {
+            console.warn("Timetable data is empty. This might indicate a parsing issue or the sheet has no data.");
+          }
+        });
+        setSectionTimetables(Object.fromEntries(sections.map((s, i) => [s, fetched[i]])));
+        const syncedAt = await Promise.all(sections.map((s, i) => saveTimetableToCache(storageKey(s), fetched[i], source.key)));
+        setLastSynced(new Date(Math.min(...syncedAt.map((date) => date.getTime()))));
+        setIsOffline(!navigator.onLine);
+        // Let the service worker keep alarms in step with this timetable while the app is closed
+        await saveBackgroundSyncConfig({
+          source: sourceConfig,
+          batchId: getBatchId(batch),
+          sections: sections.map((s) => ({ section: s, storageKey: storageKey(s), hiddenSubjects: getHiddenSubjects(storageKey(s)) ?? [] })),
+        });
+
+        // Compare with the previously synced copies and move any affected alarms.
+        // Only changes to the student's own subjects are worth telling them about.
+        const changes = sections.flatMap((s, i) => {
+          const cached = cachedList[i];
+          if (!cached) return [];
+          const hidden = getHiddenSubjects(storageKey(s)) ?? [];
+          return diffTimetables(
+            filterScheduleBySubjects(cached.data, hidden),
+            filterScheduleBySubjects(fetched[i], hidden)
+          );
+        });
+        if (changes.length > 0 && !signal.aborted) {
+          setScheduleChanges(prev => [...prev, ...changes]);
+          const selection = alarmSelectionRef.current;
+          await notifyAlarmScheduleChanges(changes, (alarmId, change) =>
+            isClassAlarmEnabled(alarmId, change.previousDate ?? change.date, change.subject, selection)
+          );
+          await applyScheduleChanges(changes);
         }
-        setTimetableData(data);
-      } catch (err: any) {
+      } catch (err) {
+        if (signal.aborted) return;
         console.error("Error loading timetable:", err);
-        setError(err.message || "Failed to load schedule");
+        if (hasCache) {
+          // Keep showing the cached copy. Connection trouble shows in the header badge;
+          // anything else (e.g. the sheet was unshared) needs the student to act, so say what
+          if (isConnectionError(err)) {
+            setIsOffline(true);
+          } else {
+            setRefreshError(describeTimetableError(err));
+          }
+        } else {
+          setError(describeTimetableError(err));
+        }
       } finally {
-        setLoading(false);
+        if (!signal.aborted) {
+          setLoading(false);
+          setIsRefreshing(false);
+        }
       }
     };
     loadData();
-  }, [section]);
+
+    return () => {
+      controller.abort();
+    };
+  }, [sectionsKey, term, syncRequest]);
+
+  // Keep the clock ticking for live class progress; catch up at once when the tab is shown again
+  useEffect(() => {
+    const tick = () => setNow(new Date());
+    const interval = setInterval(tick, CLOCK_TICK_MS);
+    const handleVisibility = () => {
+      if (document.visibilityState === 'visible') tick();
+    };
+    document.addEventListener('visibilitychange', handleVisibility);
+    return () => {
+      clearInterval(interval);
+      document.removeEventListener('visibilitychange', handleVisibility);
+    };
+  }, []);
+
+  // Track connectivity and revalidate as soon as the connection comes back
+  useEffect(() => {
+    const handleOnline = () => {
+      setIsOffline(false);
+      setSyncRequest(prev => prev + 1);
+    };
+    const handleOffline = () => setIsOffline(true);
+
+    window.addEventListener('online', handleOnline);
+    window.addEventListener('offline', handleOffline);
+    return () => {
+      window.removeEventListener('online', handleOnline);
+      window.removeEventListener('offline', handleOffline);
+    };
+  }, []);
 
   const selectedDayClasses = useMemo(() => {
     // Normalize currentDate to midnight for comparison
     const normalizedCurrentDate = new Date(currentDate);
     normalizedCurrentDate.setHours(0, 0, 0, 0);
     
-    const match = timetableData.find(d => {
+    const match = visibleTimetable.find(d => {
       // Normalize dateObj to midnight for comparison
       const normalizedDateObj = new Date(d.dateObj);
       normalizedDateObj.setHours(0, 0, 0, 0);
@@ -146,55 +413,34 @@ export const ScheduleView: React.FC<ScheduleViewProps> = ({ section, onBack, isD
     }
     
     return match ? match.slots : [];
-  }, [timetableData, currentDate]);
+  }, [timetableData, visibleTimetable, currentDate]);
 
-  // Schedule alarms when enabled alarms or master alarm changes
-  useEffect(() => {
-    const setupAlarms = async () => {
-      try {
-        // Cancel all existing alarms
-        await cancelAllAlarms();
+  const isSearching = hasActiveSearch(searchQuery, searchFilters);
+  const searchResults = useMemo(
+    () => isSearching ? searchSchedule(visibleTimetable, searchQuery, searchFilters, now, notes) : [],
+    [isSearching, visibleTimetable, searchQuery, searchFilters, now, notes]
+  );
+  const noteDates = useMemo(() => getNoteDates(notes), [notes]);
 
-        if (!masterAlarmEnabled && enabledAlarms.size === 0) {
-          return;
-        }
+  const upcomingAssessments = useMemo(() => getUpcomingAssessments(visibleTimetable, now), [visibleTimetable, now]);
 
-        const alarmsToSchedule: AlarmInfo[] = [];
-        
-        selectedDayClasses.forEach((slot) => {
-          const alarmId = generateAlarmId(currentDate, slot.time, slot.subject);
-          const shouldSchedule = masterAlarmEnabled || enabledAlarms.has(alarmId);
-          
-          if (shouldSchedule) {
-            const classTime = parseTimeString(slot.time, currentDate);
-            const alarmTime = calculateAlarmTime(classTime);
-            
-            alarmsToSchedule.push({
-              id: alarmId,
-              time: slot.time,
-              subject: slot.subject,
-              date: currentDate,
-              alarmTime: alarmTime,
-            });
-          }
-        });
-
-        // Schedule all alarms
-        for (const alarm of alarmsToSchedule) {
-          await scheduleAlarm(alarm);
-        }
-      } catch (error) {
-        console.error('Error setting up alarms:', error);
-      }
-    };
+  const courseAttendance = useMemo(
+    () => getCourseAttendance(attendance, visibleTimetable, undefined, now),
+    [attendance, visibleTimetable, now]
+  );
+  const attendanceAtRisk = courseAttendance.filter((course) => course.level !== 'ok').length;
 
-    setupAlarms();
+  // Overlapping classes on the selected day, e.g. Section A at 09:15 and Section B at 09:00
+  const clashingSlots = useMemo(() => findClashingSlots(selectedDayClasses), [selectedDayClasses]);
 
-    // Cleanup on unmount or when dependencies change
-    return () => {
-      cancelAllAlarms().catch(err => console.error('Error canceling alarms:', err));
-    };
-  }, [masterAlarmEnabled, enabledAlarms, selectedDayClasses, currentDate]);
+  // Keep stored alarms in sync with every upcoming class that should ring.
+  // Reconciling (rather than clearing and re-adding) keeps snoozes and untouched alarms intact.
+  // Skipped when loading failed, so a bad load never clears alarms set from an earlier one.
+  useEffect(() => {
+    if (loading || error) return;
+    reconcileTimetableAlarms(visibleTimetable, alarmSelection)
+      .catch(err => console.error('Error setting up alarms:', err));
+  }, [alarmSelection, visibleTimetable, loading, error]);
 
   // Toggle master alarm
   const handleMasterAlarmToggle = async () => {
@@ -207,24 +453,152 @@ export const ScheduleView: React.FC<ScheduleViewProps> = ({ section, onBack, isD
   };
 
   // Toggle individual alarm
-  const handleAlarmToggle = async (alarmId: string) => {
+  const handleAlarmToggle = async (alarmId: string, date: Date, subject: string) => {
     const hasPermission = await requestNotificationPermission();
     if (!hasPermission) {
       alert('Please enable notifications to use alarms');
       return;
     }
 
+    const isEnabled = isClassAlarmEnabled(alarmId, date, subject, alarmSelection);
+
     setEnabledAlarms(prev => {
       const newSet = new Set(prev);
-      if (newSet.has(alarmId)) {
+      if (isEnabled) {
         newSet.delete(alarmId);
-        // Cancel this specific alarm
-        cancelAlarm(alarmId);
       } else {
         newSet.add(alarmId);
       }
       return newSet;
     });
+
+    // With the master alarm on, switching a class off is recorded as an opt-out
+    setAlarmOptOuts(prev => ({
+      ...prev,
+      classes: isEnabled && masterAlarmEnabled
+        ? [...prev.classes, alarmId]
+        : prev.classes.filter(id => id !== alarmId),
+    }));
+  };
+
+  // Mute or unmute the master alarm for the selected day
+  const isCurrentDayMuted = alarmOptOuts.days.includes(currentDate.toDateString());
+  const handleDayAlarmToggle = () => {
+    const dayKey = currentDate.toDateString();
+    setAlarmOptOuts(prev => ({
+      ...prev,
+      days: prev.days.includes(dayKey)
+        ? prev.days.filter(day => day !== dayKey)
+        : [...prev.days, dayKey],
+    }));
+  };
+
+  // Distinct subjects in the timetable, for the per-subject mute list
+  const allSubjects = useMemo(() => {
+    const subjects = new Set<string>();
+    visibleTimetable.forEach(day => day.slots.forEach(slot => subjects.add(slot.subject)));
+    return Array.from(subjects).sort((a, b) => a.localeCompare(b));
+  }, [visibleTimetable]);
+
+  const handleSaveReminderSettings = (settings: ReminderSettings, mutedSubjects: string[]) => {
+    saveReminderSettings(settings);
+    setReminderSettings(getReminderSettings());
+    setAlarmOptOuts(prev => ({ ...prev, subjects: mutedSubjects }));
+  };
+
+  const handleSaveMySubjects = (target: Section, hidden: string[]) => {
+    saveHiddenSubjects(storageKey(target), hidden);
+    saveBackgroundSyncHiddenSubjects(storageKey(target), hidden);
+    setHiddenSubjects(prev => ({ ...prev, [target]: hidden }));
+  };
+
+  // Re-fetch without reloading the page; the load effect aborts any request still running
+  const handleRetry = () => {
+    setLoading(true);
+    setSyncRequest(prev => prev + 1);
+  };
+
+  // Closing the first-run prompt without choosing keeps every subject
+  const handleCloseMySubjects = () => {
+    if (mySubjectsSection && getHiddenSubjects(storageKey(mySubjectsSection)) === null) {
+      handleSaveMySubjects(mySubjectsSection, []);
+    }
+    setMySubjectsSection(null);
+  };
+
+  // Open a day from the week grid or month calendar in the single-day list
+  const handleOpenDay = (date: Date) => {
+    setCurrentDate(date);
+    setViewMode('day');
+  };
+
+  const handleToggleDayBeforeReminders = async () => {
+    const enabling = !reminderSettings.assessmentDayBefore;
+    if (enabling && !(await requestNotificationPermission())) {
+      alert('Please enable notifications to use alarms');
+      return;
+    }
+    saveReminderSettings({ ...reminderSettings, assessmentDayBefore: enabling });
+    setReminderSettings(getReminderSettings());
+  };
+
+  // Update the card straight away, then persist
+  const handleMarkAttendance = async (date: Date, slot: TimeSlot, status: AttendanceStatus | null) => {
+    const id = generateAlarmId(date, slot.startTime, getClassIdSubject(slot));
+    const previous = attendance.get(id);
+    const update = (record: AttendanceRecord | null | undefined) => setAttendance(prev => {
+      const next = new Map(prev);
+      if (record) {
+        next.set(id, record);
+      } else {
+        next.delete(id);
+      }
+      return next;
+    });
+
+    update(status ? { id, status, subject: slot.subject, date, time: slot.startTime, markedAt: new Date() } : null);
+    try {
+      await saveAttendance(date, slot.startTime, slot.subject, status, slot.cellSubject);
+    } catch (err) {
+      console.error('Error saving attendance:', err);
+      update(previous);
+    }
+  };
+
+  const handleSaveNote = async (date: Date, slot: TimeSlot, content: ClassNoteContent) => {
+    const id = generateAlarmId(date, slot.startTime, getClassIdSubject(slot));
+    const previous = notes.get(id);
+    const update = (note: ClassNote | null | undefined) => setNotes(prev => {
+      const next = new Map(prev);
+      if (note) {
+        next.set(id, note);
+      } else {
+        next.delete(id);
+      }
+      return next;
+    });
+
+    update(isNoteEmpty(content) ? null : { id, subject: slot.subject, date, time: slot.startTime, ...content, updatedAt: new Date() });
+    try {
+      await saveNote(date, slot.startTime, slot.subject, content, slot.cellSubject);
+    } catch (err) {
+      console.error('Error saving note:', err);
+      update(previous);
+    }
+  };
+
+  // Jump to a search result's day and leave search
+  const handleSelectSearchResult = (date: Date) => {
+    handleOpenDay(date);
+    setSearchQuery('');
+    setSearchFilters(EMPTY_SEARCH_FILTERS);
+  };
+
+  // Download the section's classes as an .ics file for Google/Apple Calendar or Outlook
+  const handleExportCalendar = () => {
+    if (visibleTimetable.length === 0) return;
+    const includeAlarms = window.confirm(`Add reminders (${formatReminderOffsets(reminderSettings.offsets)}) to each class?`);
+    downloadICalendar(section, visibleTimetable, { includeAlarms, reminderSettings }, sectionsKey);
   };
 
   const monthName = currentDate.toLocaleDateString('en-US', { month: 'long', year: 'numeric' });
@@ -243,8 +617,33 @@ export const ScheduleView: React.FC<ScheduleViewProps> = ({ section, onBack, isD
           </button>
           
           <div className="flex flex-col items-center">
-            <h2 className="text-lg font-bold text-gray-900 dark:text-gray-100 tracking-tight transition-colors duration-300">Section {section}</h2>
-            <span className="text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider transition-colors duration-300">{monthName}</span>
+            <h2 className="text-lg font-bold text-gray-900 dark:text-gray-100 tracking-tight transition-colors duration-300">
+              {sections.length > 1 ? `Sections ${sections.join(' + ')}` : `Section ${section}`}
+            </h2>
+            <span className="text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider transition-colors duration-300">
+              {showBatchName ? `${batch.batch.name} · ${monthName}` : monthName}
+            </span>
+            <SyncStatusBadge lastSynced={lastSynced} isOffline={isOffline} isRefreshing={isRefreshing} />
+            {upcomingAssessments.length > 0 && (
+              <button
+                onClick={() => setShowAssessments(true)}
+                className="mt-1 flex items-center gap-1 px-2 py-0.5 rounded-full bg-red-50 dark:bg-red-900/30 border border-red-100 dark:border-red-800 text-[10px] font-bold text-red-700 dark:text-red-300 transition-colors duration-300 active:scale-95"
+                aria-label={`${upcomingAssessments.length} upcoming assessments`}
+              >
+                <ClipboardList className="w-3 h-3" />
+                {upcomingAssessments.length} {upcomingAssessments.length === 1 ? 'assessment' : 'assessments'}
+              </button>
+            )}
+            {attendanceAtRisk > 0 && (
+              <button
+                onClick={() => setShowAttendance(true)}
+                className="mt-1 flex items-center gap-1 px-2 py-0.5 rounded-full bg-amber-50 dark:bg-amber-900/30 border border-amber-100 dark:border-amber-800 text-[10px] font-bold text-amber-700 dark:text-amber-300 transition-colors duration-300 active:scale-95"
+                aria-label={`Attendance low in ${attendanceAtRisk} courses`}
+              >
+                <UserCheck className="w-3 h-3" />
+                Attendance low in {attendanceAtRisk} {attendanceAtRisk === 1 ? 'course' : 'courses'}
+              </button>
+            )}
           </div>
           
           <div className="flex items-center gap-2">
@@ -265,6 +664,38 @@ export const ScheduleView: React.FC<ScheduleViewProps> = ({ section, onBack, isD
               )}
             </button>
             
+            {/* Reminder Settings */}
+            <button
+              onClick={() => setShowReminderSettings(true)}
+              className="w-10 h-10 bg-gray-50 dark:bg-gray-800 rounded-full flex items-center justify-center border border-gray-100 dark:border-gray-700 shadow-sm hover:opacity-80 transition-all duration-300 active:scale-95"
+              aria-label="Reminder settings"
+              title={`Reminders: ${formatReminderOffsets(reminderSettings.offsets)}`}
+            >
+              <AlarmClock className="w-5 h-5 text-gray-600 dark:text-gray-400" />
+            </button>
+
+            {/* My Subjects */}
+            <button
+              onClick={() => setMySubjectsSection(section)}
+              disabled={timetableData.length === 0}
+              className="w-10 h-10 bg-gray-50 dark:bg-gray-800 rounded-full flex items-center justify-center border border-gray-100 dark:border-gray-700 shadow-sm hover:opacity-80 transition-all duration-300 active:scale-95 disabled:opacity-40"
+              aria-label="My subjects"
+              title="My subjects"
+            >
+              <ListChecks className="w-5 h-5 text-gray-600 dark:text-gray-400" />
+            </button>
+
+            {/* Export to Calendar */}
+            <button
+              onClick={handleExportCalendar}
+              disabled={visibleTimetable.length === 0}
+              className="w-10 h-10 bg-gray-50 dark:bg-gray-800 rounded-full flex items-center justify-center border border-gray-100 dark:border-gray-700 shadow-sm hover:opacity-80 transition-all duration-300 active:scale-95 disabled:opacity-40"
+              aria-label="Export to calendar"
+              title="Export to calendar (.ics)"
+            >
+              <CalendarArrowDown className="w-5 h-5 text-gray-600 dark:text-gray-400" />
+            </button>
+
             {/* Dark Mode Toggle */}
             <button
               onClick={onToggleDarkMode}
@@ -286,11 +717,63 @@ export const ScheduleView: React.FC<ScheduleViewProps> = ({ section, onBack, isD
         currentDate={currentDate} 
         onSelectDate={setCurrentDate} 
         days={allDates}
+        noteDates={noteDates}
         isDarkMode={isDarkMode}
       />
 
       {/* Content Area */}
       <div className="flex-1 p-4 max-w-lg mx-auto w-full">
+        {refreshError && !error && (
+          <div className="mb-4 p-3 flex items-start gap-3 bg-amber-50 dark:bg-amber-900/20 rounded-xl border border-amber-100 dark:border-amber-800 transition-colors duration-300">
+            <AlertTriangle className="w-5 h-5 shrink-0 text-amber-600 dark:text-amber-400" />
+            <div className="flex-1 min-w-0">
+              <p className="text-sm font-semibold text-amber-900 dark:text-amber-200 transition-colors duration-300">{refreshError.title}</p>
+              <p className="text-xs text-amber-700 dark:text-amber-300 transition-colors duration-300">{refreshError.message}</p>
+              <p className="mt-1 text-xs text-amber-600 dark:text-amber-400 transition-colors duration-300">Showing the copy saved on this device.</p>
+            </div>
+            <button
+              onClick={handleRetry}
+              className="text-xs font-semibold text-amber-700 dark:text-amber-300 transition-colors duration-300"
+            >
+              Retry
+            </button>
+          </div>
+        )}
+
+        <ScheduleChangesPanel
+          changes={scheduleChanges}
+          onDismiss={() => setScheduleChanges([])}
+          onSelectDate={handleOpenDay}
+        />
+
+        {!loading && !error && timetableData.length > 0 && (
+          <SearchBar
+            query={searchQuery}
+            filters={searchFilters}
+            onQueryChange={setSearchQuery}
+            onFiltersChange={setSearchFilters}
+          />
+        )}
+
+        {/* Day / Week / Month / Stats toggle */}
+        {!loading && !error && timetableData.length > 0 && !isSearching && (
+          <div className="flex p-1 mb-4 bg-gray-100 dark:bg-gray-800 rounded-xl transition-colors duration-300">
+            {VIEW_MODES.map((mode) => (
+              <button
+                key={mode}
+                onClick={() => setViewMode(mode)}
+                className={`flex-1 py-1.5 text-sm font-semibold rounded-lg capitalize transition-all duration-300 ${
+                  viewMode === mode
+                    ? 'bg-white dark:bg-gray-700 text-gray-900 dark:text-gray-100 shadow-sm'
+                    : 'text-gray-500 dark:text-gray-400'
+                }`}
+              >
+                {mode}
+              </button>
+            ))}
+          </div>
+        )}
+
         {loading ? (
           <div className="flex flex-col items-center justify-center h-64 animate-pulse">
             <Loader2 className="w-10 h-10 text-blue-600 dark:text-blue-400 animate-spin mb-4" />
@@ -299,10 +782,10 @@ export const ScheduleView: React.FC<ScheduleViewProps> = ({ section, onBack, isD
         ) : error ? (
            <div className="flex flex-col items-center justify-center h-64 text-center p-6 bg-red-50 dark:bg-red-900/20 rounded-2xl border border-red-100 dark:border-red-800 transition-colors duration-300">
             <AlertTriangle className="w-12 h-12 text-red-500 dark:text-red-400 mb-3" />
-            <p className="text-red-900 dark:text-red-200 font-semibold mb-1 transition-colors duration-300">Sync Error</p>
-            <p className="text-red-700 dark:text-red-300 text-sm transition-colors duration-300">{error}</p>
+            <p className="text-red-900 dark:text-red-200 font-semibold mb-1 transition-colors duration-300">{error.title}</p>
+            <p className="text-red-700 dark:text-red-300 text-sm transition-colors duration-300">{error.message}</p>
             <button 
-                onClick={() => window.location.reload()} 
+                onClick={handleRetry} 
                 className="mt-4 px-4 py-2 bg-white dark:bg-gray-800 text-red-600 dark:text-red-400 text-sm font-medium rounded-lg border border-red-200 dark:border-red-700 shadow-sm transition-colors duration-300"
             >
                 Retry
@@ -318,12 +801,44 @@ export const ScheduleView: React.FC<ScheduleViewProps> = ({ section, onBack, isD
               The timetable data could not be loaded or is empty. Please check your connection and try again.
             </p>
             <button 
-              onClick={() => window.location.reload()} 
+              onClick={handleRetry} 
               className="px-4 py-2 bg-blue-600 dark:bg-blue-500 text-white text-sm font-medium rounded-lg hover:bg-blue-700 dark:hover:bg-blue-600 transition-colors duration-300"
             >
-              Reload
+              Retry
             </button>
           </div>
+        ) : isSearching ? (
+          <SearchResults
+            results={searchResults}
+            showSection={sections.length > 1}
+            onSelectResult={handleSelectSearchResult}
+          />
+        ) : viewMode === 'week' ? (
+          <WeekView
+            templateSlotTimes={getSectionTemplate(batch.batch, section).slotTimes}
+            timetableData={visibleTimetable}
+            currentDate={currentDate}
+            onChangeWeek={setCurrentDate}
+            onOpenDay={handleOpenDay}
+            isDarkMode={isDarkMode}
+          />
+        ) : viewMode === 'stats' ? (
+          <StatisticsView
+            timetableData={visibleTimetable}
+            now={now}
+            onSelectDate={handleOpenDay}
+            attendanceAtRisk={attendanceAtRisk}
+            onOpenAttendance={() => setShowAttendance(true)}
+            isDarkMode={isDarkMode}
+          />
+        ) : viewMode === 'month' ? (
+          <MonthCalendar
+            timetableData={visibleTimetable}
+            currentDate={currentDate}
+            onChangeMonth={setCurrentDate}
+            onSelectDate={handleOpenDay}
+            isDarkMode={isDarkMode}
+          />
         ) : selectedDayClasses.length === 0 ? (
           <div className="flex flex-col items-center justify-center h-[50vh] text-center">
             <div className="w-20 h-20 bg-gray-100 dark:bg-gray-800 rounded-full flex items-center justify-center mb-6 transition-colors duration-300">
@@ -341,18 +856,52 @@ export const ScheduleView: React.FC<ScheduleViewProps> = ({ section, onBack, isD
           </div>
         ) : (
           <div className="space-y-4 animate-in fade-in slide-in-from-bottom-4 duration-500">
+             {/* Per-day mute for the master alarm */}
+             {masterAlarmEnabled && (
+               <button
+                 onClick={handleDayAlarmToggle}
+                 className={`w-full flex items-center justify-center gap-2 py-2 rounded-xl text-xs font-semibold border transition-all duration-300 active:scale-95 ${
+                   isCurrentDayMuted
+                     ? 'bg-gray-50 dark:bg-gray-800 border-gray-100 dark:border-gray-700 text-gray-500 dark:text-gray-400'
+                     : 'bg-amber-50 dark:bg-amber-900/30 border-amber-100 dark:border-amber-800 text-amber-700 dark:text-amber-300'
+                 }`}
+               >
+                 {isCurrentDayMuted ? <BellOff className="w-4 h-4" /> : <Bell className="w-4 h-4" />}
+                 {isCurrentDayMuted ? 'Alarms muted for this day' : 'Alarms on for this day'}
+               </button>
+             )}
+
+             {currentDate.toDateString() === now.toDateString() && (
+               <NextClassBanner slots={selectedDayClasses} date={currentDate} now={now} />
+             )}
+
+             {clashingSlots.size > 0 && (
+               <div className="flex items-center gap-2 px-4 py-3 rounded-xl bg-red-50 dark:bg-red-900/20 border border-red-100 dark:border-red-800 text-sm text-red-800 dark:text-red-200 transition-colors duration-300">
+                 <AlertTriangle className="w-4 h-4 flex-shrink-0" />
+                 {clashingSlots.size} classes overlap on this day
+               </div>
+             )}
+
              {selectedDayClasses.map((slot, idx) => {
-               const alarmId = generateAlarmId(currentDate, slot.time, slot.subject);
-               const isAlarmEnabled = masterAlarmEnabled || enabledAlarms.has(alarmId);
+               const alarmId = generateAlarmId(currentDate, slot.startTime, getClassIdSubject(slot));
+               const isAlarmEnabled = isClassAlarmEnabled(alarmId, currentDate, slot.subject, alarmSelection);
                
                return (
                  <ClassCard 
-                   key={`${slot.time}-${idx}`} 
+                   key={`${currentDate.toDateString()}-${slot.startTime}-${idx}`}
                    slot={slot} 
                    isDarkMode={isDarkMode}
                    isAlarmEnabled={isAlarmEnabled}
-                   onAlarmToggle={() => handleAlarmToggle(alarmId)}
+                   onAlarmToggle={() => handleAlarmToggle(alarmId, currentDate, slot.subject)}
+                   reminderLabel={formatReminderOffsets(getReminderOffsets(slot.subject, reminderSettings))}
                    currentDate={currentDate}
+                   now={now}
+                   showSection={sections.length > 1}
+                   hasClash={clashingSlots.has(idx)}
+                   attendance={attendance.get(alarmId)?.status}
+                   onMarkAttendance={isAssessmentSubject(slot.subject) ? undefined : (status) => handleMarkAttendance(currentDate, slot, status)}
+                   note={notes.get(alarmId)}
+                   onSaveNote={(content) => handleSaveNote(currentDate, slot, content)}
                  />
                );
              })}
@@ -363,6 +912,51 @@ export const ScheduleView: React.FC<ScheduleViewProps> = ({ section, onBack, isD
           </div>
         )}
       </div>
+
+      {showReminderSettings && (
+        <ReminderSettingsPanel
+          settings={reminderSettings}
+          subjects={allSubjects}
+          mutedSubjects={alarmOptOuts.subjects}
+          onSave={handleSaveReminderSettings}
+          onClose={() => setShowReminderSettings(false)}
+        />
+      )}
+
+      {showAssessments && (
+        <AssessmentsView
+          assessments={upcomingAssessments}
+          showSection={sections.length > 1}
+          dayBeforeReminders={reminderSettings.assessmentDayBefore}
+          onToggleDayBeforeReminders={handleToggleDayBeforeReminders}
+          onSelectDate={(date) => {
+            setShowAssessments(false);
+            handleOpenDay(date);
+          }}
+          onClose={() => setShowAssessments(false)}
+        />
+      )}
+
+      {showAttendance && (
+        <AttendanceView
+          courses={courseAttendance}
+          onClose={() => setShowAttendance(false)}
+        />
+      )}
+
+      {mySubjectsSection && (
+        <MySubjectsPanel
+          key={mySubjectsSection}
+          section={mySubjectsSection}
+          sections={sections}
+          onSwitchSection={setMySubjectsSection}
+          subjects={subjectOptions[mySubjectsSection] ?? []}
+          hiddenSubjects={hiddenSubjects[mySubjectsSection] ?? []}
+          isFirstRun={hiddenSubjects[mySubjectsSection] === null}
+          onSave={(hidden) => handleSaveMySubjects(mySubjectsSection, hidden)}
+          onClose={handleCloseMySubjects}
+        />
+      )}
     </div>
   );
 };
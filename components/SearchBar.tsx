@@ -0,0 +1,60 @@
+import React from 'react';
+import { SearchFilters } from '../services/searchService';
+import { Search, X } from 'lucide-react';
+
+interface SearchBarProps {
+  query: string;
+  filters: SearchFilters;
+  onQueryChange: (query: string) => void;
+  onFiltersChange: (filters: SearchFilters) => void;
+}
+
+const FILTER_OPTIONS: { key: keyof SearchFilters; label: string }[] = [
+  { key: 'examsOnly', label: 'Exams only' },
+  { key: 'upcomingOnly', label: 'Upcoming' },
+  { key: 'thisWeek', label: 'This week' },
+];
+
+export const SearchBar: React.FC<SearchBarProps> = ({ query, filters, onQueryChange, onFiltersChange }) => {
+  return (
+    <div className="mb-4">
+      <div className="relative">
+        <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-gray-400 dark:text-gray-500" />
+        <input
+          type="search"
+          value={query}
+          onChange={(e) => onQueryChange(e.target.value)}
+          placeholder="Search subjects, e.g. HRM or DEM quiz"
+          className="w-full pl-9 pr-9 py-2.5 rounded-xl bg-white dark:bg-gray-800 border border-gray-100 dark:border-gray-700 text-sm text-gray-900 dark:text-gray-100 placeholder-gray-400 dark:placeholder-gray-500 focus:outline-none focus:ring-2 focus:ring-blue-500 transition-colors duration-300"
+          aria-label="Search classes"
+        />
+        {query && (
+          <button
+            onClick={() => onQueryChange('')}
+            className="absolute right-2 top-1/2 -translate-y-1/2 p-1 rounded-full hover:bg-gray-100 dark:hover:bg-gray-700 transition-colors"
+            aria-label="Clear search"
+          >
+            <X className="w-4 h-4 text-gray-400 dark:text-gray-500" />
+          </button>
+        )}
+      </div>
+
+      <div className="flex gap-2 mt-2">
+        {FILTER_OPTIONS.map(({ key, label }) => (
+          <button
+            key={key}
+            onClick={() => onFiltersChange({ ...filters, [key]: !filters[key] })}
+            className={`px-3 py-1 rounded-full text-xs font-semibold border transition-all duration-200 active:scale-95 ${
+              filters[key]
+                ? 'bg-blue-600 dark:bg-blue-500 border-blue-600 dark:border-blue-500 text-white'
+                : 'bg-white dark:bg-gray-800 border-gray-100 dark:border-gray-700 text-gray-600 dark:text-gray-300'
+            }`}
+            aria-pressed={filters[key]}
+          >
+            {label}
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,65 @@
+import React from 'react';
+import { SearchResult } from '../services/searchService';
+import { getSubjectStyles } from './ClassCard';
+import { SearchX, StickyNote } from 'lucide-react';
+
+interface SearchResultsProps {
+  results: SearchResult[];
+  showSection: boolean;
+  onSelectResult: (date: Date) => void;
+}
+
+export const SearchResults: React.FC<SearchResultsProps> = ({ results, showSection, onSelectResult }) => {
+  if (results.length === 0) {
+    return (
+      <div className="flex flex-col items-center justify-center h-48 text-center">
+        <SearchX className="w-10 h-10 text-gray-300 dark:text-gray-600 mb-3" />
+        <p className="text-gray-500 dark:text-gray-400 text-sm transition-colors duration-300">No matching classes</p>
+      </div>
+    );
+  }
+
+  const todayStr = new Date().toDateString();
+
+  return (
+    <div className="animate-in fade-in duration-300">
+      <p className="text-xs font-medium text-gray-400 dark:text-gray-500 mb-2 transition-colors duration-300">
+        {results.length} {results.length === 1 ? 'class' : 'classes'}
+      </p>
+      <ul className="space-y-2">
+        {results.map(({ day, slot, note }, idx) => (
+          <li key={`${day.dateObj.toDateString()}-${slot.startTime}-${idx}`}>
+            <button
+              onClick={() => onSelectResult(day.dateObj)}
+              className={`w-full flex items-center gap-3 p-3 rounded-xl border text-left transition-all duration-300 active:scale-[0.98] ${getSubjectStyles(slot.subject)}`}
+            >
+              <div className="w-12 flex-shrink-0 text-center">
+                <p className="text-[10px] font-semibold uppercase opacity-70">
+                  {day.dateObj.toLocaleDateString('en-US', { weekday: 'short' })}
+                </p>
+                <p className="text-lg font-bold leading-tight">{day.dateObj.getDate()}</p>
+                <p className="text-[10px] font-medium uppercase opacity-70">
+                  {day.dateObj.toLocaleDateString('en-US', { month: 'short' })}
+                </p>
+              </div>
+              <div className="flex-1 min-w-0">
+                <p className="font-semibold text-sm truncate">{slot.subject}</p>
+                <p className="text-xs font-mono opacity-75">
+                  {slot.startTime}–{slot.endTime}
+                  {showSection && slot.section ? ` · Section ${slot.section}` : ''}
+                  {day.dateObj.toDateString() === todayStr ? ' · Today' : ''}
+                </p>
+                {note && (
+                  <p className="flex items-center gap-1 mt-0.5 text-xs opacity-75 truncate">
+                    <StickyNote className="w-3 h-3 flex-shrink-0" />
+                    <span className="truncate">{note.text || note.tasks.map((task) => task.text).join(', ')}</span>
+                  </p>
+                )}
+              </div>
+            </button>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+};
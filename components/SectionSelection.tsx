@@ -1,15 +1,79 @@
-import React from 'react';
-import { Section } from '../types';
-import { SECTIONS } from '../constants';
-import { BookOpen, Sparkles, Moon, Sun } from 'lucide-react';
+import React, { useEffect, useState } from 'react';
+import { Section, SelectedBatch } from '../types';
+import { getAllBatches, getSavedBatch } from '../services/programmeService';
+import { createTimetableSource, getActiveSourceConfig, getBatchSourceConfig } from '../services/sourceService';
+import { fetchBatchSections } from '../services/sheetService';
+import { describeTimetableError } from '../services/errorService';
+import { SourceSettingsPanel } from './SourceSettingsPanel';
+import { BookOpen, Sparkles, Moon, Sun, Check, Layers, Database, GraduationCap, ChevronRight, Loader2 } from 'lucide-react';
 
 interface SectionSelectionProps {
-  onSelect: (sec: Section) => void;
+  initialBatch: SelectedBatch;
+  onSelect: (batch: SelectedBatch, sections: Section[]) => void; // Own section first, then any merged in
   isDarkMode: boolean;
   onToggleDarkMode: () => void;
 }
 
-export const SectionSelection: React.FC<SectionSelectionProps> = ({ onSelect, isDarkMode, onToggleDarkMode }) => {
+export const SectionSelection: React.FC<SectionSelectionProps> = ({ initialBatch, onSelect, isDarkMode, onToggleDarkMode }) => {
+  const allBatches = getAllBatches();
+  const [batch, setBatch] = useState(initialBatch);
+  // With several batches, ask for one first unless it was picked before
+  const [isPickingBatch, setIsPickingBatch] = useState(() => allBatches.length > 1 && getSavedBatch() === null);
+  const [sections, setSections] = useState<Section[]>([]);
+  const [sectionsError, setSectionsError] = useState<string | null>(null);
+  const [loadingSections, setLoadingSections] = useState(false);
+  // In combine mode taps build a list of sections instead of opening one straight away
+  const [isCombining, setIsCombining] = useState(false);
+  const [picked, setPicked] = useState<Section[]>([]);
+  const [sourceConfig, setSourceConfig] = useState(() => getActiveSourceConfig(initialBatch));
+  const [showSourceSettings, setShowSourceSettings] = useState(false);
+
+  // Configured sections are known straight away; otherwise read them from the sheet headers
+  useEffect(() => {
+    if (isPickingBatch) return;
+    const controller = new AbortController();
+    const { signal } = controller;
+    setSectionsError(null);
+    setLoadingSections(!batch.batch.sections);
+    fetchBatchSections(batch.batch, createTimetableSource(sourceConfig), signal)
+      .then((found) => !signal.aborted && setSections(found))
+      .catch((err) => {
+        if (signal.aborted) return;
+        const { title, message } = describeTimetableError(err);
+        setSectionsError(`${title}. ${message}`);
+      })
+      .finally(() => !signal.aborted && setLoadingSections(false));
+    return () => {
+      controller.abort();
+    };
+  }, [batch, sourceConfig, isPickingBatch]);
+
+  const handleBatchTap = (selected: SelectedBatch) => {
+    setBatch(selected);
+    setSourceConfig(getActiveSourceConfig(selected));
+    setSections([]);
+    setPicked([]);
+    setIsCombining(false);
+    setIsPickingBatch(false);
+  };
+
+  // Two columns, three when there are many sections; a short last row is stretched
+  const columns = sections.length > 6 ? 3 : 2;
+  const lastRowSpan = (index: number): string => {
+    const remainder = sections.length % columns;
+    if (remainder === 0 || index < sections.length - remainder) return '';
+    if (columns === 2) return 'col-span-2';
+    return remainder === 1 ? 'col-span-3' : '';
+  };
+
+  const handleSectionTap = (sec: Section) => {
+    if (!isCombining) {
+      onSelect(batch, [sec]);
+      return;
+    }
+    setPicked((prev) => prev.includes(sec) ? prev.filter((s) => s !== sec) : [...prev, sec]);
+  };
+
   return (
     <div className="min-h-screen bg-gray-50 dark:bg-gray-900 flex flex-col items-center justify-center px-6 py-6 transition-colors duration-300 relative">
       {/* Dark Mode Toggle Button */}
@@ -32,18 +96,67 @@ export const SectionSelection: React.FC<SectionSelectionProps> = ({ onSelect, is
       </div>
       
       <h1 className="text-2xl font-bold text-gray-900 dark:text-gray-100 mb-6 text-center tracking-tight transition-colors duration-300">Timetable</h1>
-      
-      <div className="grid grid-cols-2 gap-3 w-full max-w-sm">
-        {SECTIONS.map((sec) => (
+
+      {isPickingBatch ? (
+        <div className="w-full max-w-sm space-y-4">
+          {/* Group batches under their programme */}
+          {Array.from(new Set(allBatches.map((b) => b.programme))).map((programme) => (
+            <section key={programme.id}>
+              <h2 className="text-xs font-semibold uppercase tracking-wider text-gray-400 dark:text-gray-500 mb-2 transition-colors duration-300">{programme.name}</h2>
+              <div className="space-y-2">
+                {programme.batches.map((b) => (
+                  <button
+                    key={b.id}
+                    onClick={() => handleBatchTap({ programme, batch: b })}
+                    className="w-full flex items-center gap-3 p-4 bg-white dark:bg-gray-800 rounded-2xl shadow-sm border border-gray-100 dark:border-gray-700 hover:border-blue-500 dark:hover:border-blue-400 text-left transition-all duration-300 active:scale-[0.98]"
+                  >
+                    <GraduationCap className="w-5 h-5 text-blue-600 dark:text-blue-400 flex-shrink-0" />
+                    <span className="flex-1 text-sm font-semibold text-gray-900 dark:text-gray-100 transition-colors duration-300">{b.name}</span>
+                    <ChevronRight className="w-4 h-4 text-gray-400 dark:text-gray-500" />
+                  </button>
+                ))}
+              </div>
+            </section>
+          ))}
+        </div>
+      ) : (
+      <>
+      {allBatches.length > 1 && (
+        <button
+          onClick={() => setIsPickingBatch(true)}
+          className="-mt-4 mb-4 flex items-center gap-1.5 text-xs font-semibold text-blue-600 dark:text-blue-400 hover:underline"
+        >
+          <GraduationCap className="w-3.5 h-3.5" />
+          {batch.programme.name} · {batch.batch.name}
+        </button>
+      )}
+
+      {loadingSections ? (
+        <div className="flex items-center gap-2 text-sm text-gray-500 dark:text-gray-400">
+          <Loader2 className="w-4 h-4 animate-spin" />
+          Reading sections from the sheet…
+        </div>
+      ) : sectionsError ? (
+        <p className="max-w-sm text-center text-sm text-red-600 dark:text-red-400">{sectionsError}</p>
+      ) : (
+      <div className={`grid ${columns === 3 ? 'grid-cols-3' : 'grid-cols-2'} gap-3 w-full max-w-sm`}>
+        {sections.map((sec, idx) => (
           <button
             key={sec}
-            onClick={() => onSelect(sec as Section)}
+            onClick={() => handleSectionTap(sec)}
+            aria-pressed={isCombining ? picked.includes(sec) : undefined}
             className={`
-                relative group overflow-hidden bg-white dark:bg-gray-800 p-4 rounded-2xl shadow-sm border border-gray-100 dark:border-gray-700
+                relative group overflow-hidden bg-white dark:bg-gray-800 p-4 rounded-2xl shadow-sm border
+                ${picked.includes(sec) ? 'border-blue-500 dark:border-blue-400' : 'border-gray-100 dark:border-gray-700'}
                 hover:border-blue-500 dark:hover:border-blue-400 hover:shadow-lg hover:shadow-blue-100 dark:hover:shadow-blue-900/50 transition-all duration-300
-                ${sec === 'E' ? 'col-span-2' : ''}
+                ${lastRowSpan(idx)}
             `}
           >
+            {isCombining && picked.includes(sec) && (
+              <span className="absolute top-2 left-2 w-5 h-5 flex items-center justify-center rounded-full bg-blue-600 dark:bg-blue-500 text-white z-10">
+                {picked[0] === sec ? <span className="text-[10px] font-bold">1</span> : <Check className="w-3 h-3" />}
+              </span>
+            )}
             <div className="absolute top-0 right-0 w-12 h-12 bg-gradient-to-bl from-blue-50 dark:from-blue-900/30 to-transparent rounded-bl-full -mr-3 -mt-3 transition-transform group-hover:scale-110"></div>
             
             <div className="relative flex flex-col items-center">
@@ -55,6 +168,49 @@ export const SectionSelection: React.FC<SectionSelectionProps> = ({ onSelect, is
           </button>
         ))}
       </div>
+      )}
+
+      <div className="mt-4 w-full max-w-sm flex flex-col items-center gap-2">
+        {isCombining ? (
+          <>
+            <p className="text-xs text-gray-500 dark:text-gray-400 text-center transition-colors duration-300">
+              Tap your own section first, then any you attend electives or TA with
+            </p>
+            <div className="flex w-full gap-2">
+              <button
+                onClick={() => { setIsCombining(false); setPicked([]); }}
+                className="flex-1 py-2.5 text-sm font-semibold rounded-xl border border-gray-200 dark:border-gray-700 text-gray-600 dark:text-gray-300 transition-colors duration-300"
+              >
+                Cancel
+              </button>
+              <button
+                onClick={() => onSelect(batch, picked)}
+                disabled={picked.length === 0}
+                className="flex-1 py-2.5 bg-blue-600 dark:bg-blue-500 text-white text-sm font-semibold rounded-xl hover:bg-blue-700 dark:hover:bg-blue-600 transition-colors duration-300 active:scale-95 disabled:opacity-40"
+              >
+                {picked.length > 1 ? `View ${picked.length} sections` : 'View section'}
+              </button>
+            </div>
+          </>
+        ) : sections.length > 1 && (
+          <button
+            onClick={() => setIsCombining(true)}
+            className="flex items-center gap-1.5 text-xs font-semibold text-blue-600 dark:text-blue-400 hover:underline"
+          >
+            <Layers className="w-3.5 h-3.5" />
+            Combine sections
+          </button>
+        )}
+        <button
+          onClick={() => setShowSourceSettings(true)}
+          className="flex items-center gap-1.5 text-xs font-medium text-gray-400 dark:text-gray-500 hover:text-gray-600 dark:hover:text-gray-300 transition-colors"
+        >
+          <Database className="w-3.5 h-3.5" />
+          {createTimetableSource(sourceConfig).label}
+        </button>
+      </div>
+      </>
+      )}
 
       <div className="mt-6 flex items-center gap-2 px-4 py-2 bg-white dark:bg-gray-800 rounded-full border border-gray-100 dark:border-gray-700 shadow-sm transition-colors duration-300">
         {/* <Sparkles className="w-3 h-3 text-amber-500 dark:text-amber-400" /> */}
@@ -62,6 +218,16 @@ export const SectionSelection: React.FC<SectionSelectionProps> = ({ onSelect, is
           Crafted with caffeine and chaos by <a href="https://www.linkedin.com/in/abhishek-p-b-b20531390/" target="_blank" rel="noopener noreferrer" className="text-blue-600 dark:text-blue-400 hover:underline hover:text-blue-800 dark:hover:text-blue-300 transition-colors">Abhishek</a>✨
         </span>
       </div>
+
+      {showSourceSettings && (
+        <SourceSettingsPanel
+          batch={batch}
+          config={sourceConfig}
+          defaultConfig={getBatchSourceConfig(batch.batch)}
+          onSave={setSourceConfig}
+          onClose={() => setShowSourceSettings(false)}
+        />
+      )}
     </div>
   );
 };
\ No newline at end of file
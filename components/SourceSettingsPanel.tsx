@@ -0,0 +1,216 @@
+import React, { useState } from 'react';
+import { SelectedBatch, TimetableSourceConfig } from '../types';
+import {
+  UploadedTimetable,
+  clearSourceConfig,
+  extractSpreadsheetId,
+  getUploadedTimetable,
+  readTimetableFile,
+  saveSourceConfig,
+  saveUploadedTimetable,
+} from '../services/sourceService';
+import { SHEET_TAB_NAME, SUBJECT_DETAILS_TAB_NAME } from '../constants';
+import { X, Upload } from 'lucide-react';
+
+interface SourceSettingsPanelProps {
+  batch: SelectedBatch; // The source is chosen per batch
+  config: TimetableSourceConfig;
+  defaultConfig: TimetableSourceConfig; // The selected batch's own source
+  onSave: (config: TimetableSourceConfig) => void;
+  onClose: () => void;
+}
+
+const SOURCE_TYPES: { type: TimetableSourceConfig['type']; label: string }[] = [
+  { type: 'gviz', label: 'Google Sheet' },
+  { type: 'csv', label: 'Published CSV' },
+  { type: 'file', label: 'Upload file' },
+  { type: 'json', label: 'JSON file' },
+];
+
+const DEFAULT_JSON_URL = 'timetable.json';
+
+const inputClassName = "w-full px-3 py-2 rounded-lg bg-gray-50 dark:bg-gray-700/60 border border-gray-200 dark:border-gray-600 text-sm text-gray-900 dark:text-gray-100 focus:outline-none focus:ring-2 focus:ring-blue-500 transition-colors duration-300";
+const labelClassName = "block text-xs font-semibold text-gray-600 dark:text-gray-300 mb-1 transition-colors duration-300";
+
+export const SourceSettingsPanel: React.FC<SourceSettingsPanelProps> = ({ batch, config, defaultConfig, onSave, onClose }) => {
+  const [type, setType] = useState(config.type);
+  const [spreadsheetId, setSpreadsheetId] = useState(config.type === 'gviz' ? config.spreadsheetId : '');
+  const [tabName, setTabName] = useState(config.type === 'gviz' ? config.tabName : SHEET_TAB_NAME);
+  const [detailsTabName, setDetailsTabName] = useState(config.type === 'gviz' ? config.detailsTabName ?? '' : SUBJECT_DETAILS_TAB_NAME ?? '');
+  const [csvUrl, setCsvUrl] = useState(config.type === 'csv' ? config.url : '');
+  const [detailsCsvUrl, setDetailsCsvUrl] = useState(config.type === 'csv' ? config.detailsUrl ?? '' : '');
+  const [jsonUrl, setJsonUrl] = useState(config.type === 'json' ? config.url : DEFAULT_JSON_URL);
+  const [upload, setUpload] = useState<UploadedTimetable | null>(() => config.type === 'file' ? getUploadedTimetable() : null);
+  const [uploadError, setUploadError] = useState<string | null>(null);
+  const [isNewUpload, setIsNewUpload] = useState(false);
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return;
+    setUploadError(null);
+    try {
+      setUpload(await readTimetableFile(file));
+      setIsNewUpload(true);
+    } catch (err: any) {
+      setUpload(null);
+      setUploadError(err.message || `Couldn't read ${file.name}`);
+    }
+  };
+
+  const buildConfig = (): TimetableSourceConfig | null => {
+    switch (type) {
+      case 'gviz':
+        return spreadsheetId.trim()
+          ? { type, spreadsheetId: extractSpreadsheetId(spreadsheetId), tabName: tabName.trim() || SHEET_TAB_NAME, detailsTabName: detailsTabName.trim() || undefined }
+          : null;
+      case 'csv':
+        return csvUrl.trim() ? { type, url: csvUrl.trim(), detailsUrl: detailsCsvUrl.trim() || undefined } : null;
+      case 'json':
+        return jsonUrl.trim() ? { type, url: jsonUrl.trim() } : null;
+      case 'file':
+        return null; // Saved through saveUploadedTimetable
+    }
+  };
+
+  const canSave = type === 'file' ? upload !== null : buildConfig() !== null;
+
+  const handleSave = () => {
+    if (type === 'file') {
+      // An unchanged upload keeps its config so the cached copy stays valid
+      if (!upload) return;
+      if (config.type === 'file' && !isNewUpload) {
+        onSave(config);
+      } else {
+        try {
+          const next = saveUploadedTimetable(upload);
+          saveSourceConfig(batch, next);
+          onSave(next);
+        } catch (err: any) {
+          // Keep the panel open so the student sees why the file wasn't kept
+          setUploadError(err.message || `Couldn't save ${upload.fileName}`);
+          return;
+        }
+      }
+    } else {
+      const next = buildConfig();
+      if (!next) return;
+      saveSourceConfig(batch, next);
+      onSave(next);
+    }
+    onClose();
+  };
+
+  const handleReset = () => {
+    clearSourceConfig(batch);
+    onSave(defaultConfig);
+    onClose();
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-end sm:items-center justify-center bg-black/40 p-4" onClick={onClose}>
+      <div
+        className="w-full max-w-md max-h-[90vh] overflow-y-auto bg-white dark:bg-gray-800 rounded-2xl shadow-xl p-5 border border-gray-100 dark:border-gray-700 animate-in slide-in-from-bottom-4 duration-300 transition-colors"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between mb-1">
+          <h3 className="text-lg font-bold text-gray-900 dark:text-gray-100 transition-colors duration-300">Timetable source</h3>
+          <button
+            onClick={onClose}
+            className="p-2 -mr-2 rounded-full hover:bg-gray-100 dark:hover:bg-gray-700 transition-colors active:scale-95"
+            aria-label="Close source settings"
+          >
+            <X className="w-5 h-5 text-gray-500 dark:text-gray-400" />
+          </button>
+        </div>
+        <p className="text-xs text-gray-500 dark:text-gray-400 mb-4 transition-colors duration-300">
+          Where the timetable is read from. The sheet layout must match the usual timetable format.
+        </p>
+
+        <div className="grid grid-cols-2 gap-2 mb-4">
+          {SOURCE_TYPES.map((option) => (
+            <button
+              key={option.type}
+              onClick={() => setType(option.type)}
+              className={`py-2 rounded-lg text-sm font-medium border transition-all duration-200 active:scale-95 ${
+                type === option.type
+                  ? 'bg-blue-50 dark:bg-blue-900/30 border-blue-200 dark:border-blue-700 text-blue-800 dark:text-blue-200'
+                  : 'bg-gray-50 dark:bg-gray-700/60 border-gray-100 dark:border-gray-600 text-gray-600 dark:text-gray-300'
+              }`}
+              aria-pressed={type === option.type}
+            >
+              {option.label}
+            </button>
+          ))}
+        </div>
+
+        <div className="space-y-3 mb-5">
+          {type === 'gviz' && (
+            <>
+              <div>
+                <label className={labelClassName} htmlFor="source-sheet">Sheet link or ID</label>
+                <input id="source-sheet" className={inputClassName} value={spreadsheetId} onChange={(e) => setSpreadsheetId(e.target.value)} placeholder="https://docs.google.com/spreadsheets/d/…" />
+              </div>
+              <div>
+                <label className={labelClassName} htmlFor="source-tab">Tab name</label>
+                <input id="source-tab" className={inputClassName} value={tabName} onChange={(e) => setTabName(e.target.value)} />
+              </div>
+              <div>
+                <label className={labelClassName} htmlFor="source-details-tab">Subject details tab (optional)</label>
+                <input id="source-details-tab" className={inputClassName} value={detailsTabName} onChange={(e) => setDetailsTabName(e.target.value)} placeholder="Faculty" />
+              </div>
+              <p className="text-xs text-gray-500 dark:text-gray-400">The sheet must be shared with "Anyone with the link".</p>
+            </>
+          )}
+
+          {type === 'csv' && (
+            <>
+              <div>
+                <label className={labelClassName} htmlFor="source-csv">CSV export URL</label>
+                <input id="source-csv" className={inputClassName} value={csvUrl} onChange={(e) => setCsvUrl(e.target.value)} placeholder="https://docs.google.com/…/pub?output=csv" />
+              </div>
+              <div>
+                <label className={labelClassName} htmlFor="source-csv-details">Subject details CSV (optional)</label>
+                <input id="source-csv-details" className={inputClassName} value={detailsCsvUrl} onChange={(e) => setDetailsCsvUrl(e.target.value)} />
+              </div>
+            </>
+          )}
+
+          {type === 'file' && (
+            <>
+              <label className="flex flex-col items-center justify-center gap-2 p-5 rounded-xl border-2 border-dashed border-gray-200 dark:border-gray-600 text-sm text-gray-600 dark:text-gray-300 cursor-pointer hover:border-blue-400 transition-colors duration-300">
+                <Upload className="w-6 h-6 text-gray-400" />
+                {upload ? `${upload.fileName} · ${upload.rows.length} rows` : 'Choose an .xlsx or .csv file'}
+                <input type="file" accept=".xlsx,.csv" className="sr-only" onChange={(e) => handleFile(e.target.files?.[0])} />
+              </label>
+              {uploadError && <p className="text-xs text-red-600 dark:text-red-400">{uploadError}</p>}
+              <p className="text-xs text-gray-500 dark:text-gray-400">The file is kept on this device and works offline. Upload it again when it changes.</p>
+            </>
+          )}
+
+          {type === 'json' && (
+            <div>
+              <label className={labelClassName} htmlFor="source-json">JSON file URL</label>
+              <input id="source-json" className={inputClassName} value={jsonUrl} onChange={(e) => setJsonUrl(e.target.value)} />
+              <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">Relative paths are served alongside the app, e.g. {DEFAULT_JSON_URL}.</p>
+            </div>
+          )}
+        </div>
+
+        <div className="flex gap-2">
+          <button
+            onClick={handleReset}
+            className="flex-1 py-2.5 text-sm font-semibold rounded-xl border border-gray-200 dark:border-gray-700 text-gray-600 dark:text-gray-300 transition-colors duration-300"
+          >
+            Use default
+          </button>
+          <button
+            onClick={handleSave}
+            disabled={!canSave}
+            className="flex-1 py-2.5 bg-blue-600 dark:bg-blue-500 text-white text-sm font-semibold rounded-xl hover:bg-blue-700 dark:hover:bg-blue-600 transition-colors duration-300 active:scale-95 disabled:opacity-40"
+          >
+            Save
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
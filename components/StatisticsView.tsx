@@ -0,0 +1,138 @@
+import React, { useMemo } from 'react';
+import { DaySchedule } from '../types';
+import { getBusiestDays, getCourseStats, getWeeklyLoad } from '../services/statsService';
+import { getWeekStart } from '../services/termService';
+import { ChevronRight, UserCheck } from 'lucide-react';
+
+interface StatisticsViewProps {
+  timetableData: DaySchedule[];
+  now: Date;
+  onSelectDate: (date: Date) => void;
+  attendanceAtRisk: number; // Courses near or below the attendance minimum
+  onOpenAttendance: () => void;
+  isDarkMode: boolean;
+}
+
+const BUSIEST_DAYS_SHOWN = 5;
+
+export const StatisticsView: React.FC<StatisticsViewProps> = ({ timetableData, now, onSelectDate, attendanceAtRisk, onOpenAttendance, isDarkMode }) => {
+  const courseStats = useMemo(() => getCourseStats(timetableData, now), [timetableData, now]);
+  const weeklyLoad = useMemo(() => getWeeklyLoad(timetableData), [timetableData]);
+  const busiestDays = useMemo(() => getBusiestDays(timetableData, BUSIEST_DAYS_SHOWN), [timetableData]);
+
+  const maxWeekLoad = Math.max(1, ...weeklyLoad.map((week) => week.classes));
+  const currentWeek = getWeekStart(now).getTime();
+  const totals = courseStats.reduce(
+    (sum, stats) => ({ completed: sum.completed + stats.completed, remaining: sum.remaining + stats.remaining }),
+    { completed: 0, remaining: 0 }
+  );
+
+  return (
+    <div className="space-y-4 animate-in fade-in duration-300">
+      <button
+        onClick={onOpenAttendance}
+        className="w-full flex items-center gap-3 p-4 bg-white dark:bg-gray-800 rounded-2xl border border-gray-100 dark:border-gray-700 text-left transition-colors duration-300 active:scale-[0.98]"
+      >
+        <UserCheck className="w-5 h-5 text-emerald-600 dark:text-emerald-400 flex-shrink-0" />
+        <span className="flex-1 text-sm font-bold text-gray-900 dark:text-gray-100 transition-colors duration-300">Attendance</span>
+        {attendanceAtRisk > 0 && (
+          <span className="px-2 py-0.5 rounded-full bg-amber-100 dark:bg-amber-900/40 text-xs font-bold text-amber-800 dark:text-amber-200">
+            {attendanceAtRisk} low
+          </span>
+        )}
+        <ChevronRight className="w-4 h-4 text-gray-400 dark:text-gray-500" />
+      </button>
+
+      {/* Per-course sessions */}
+      <section className="p-4 bg-white dark:bg-gray-800 rounded-2xl border border-gray-100 dark:border-gray-700 transition-colors duration-300">
+        <div className="flex items-baseline justify-between mb-3">
+          <h3 className="text-sm font-bold text-gray-900 dark:text-gray-100 transition-colors duration-300">Sessions</h3>
+          <span className="text-xs text-gray-500 dark:text-gray-400 transition-colors duration-300">
+            {totals.completed} done · {totals.remaining} left
+          </span>
+        </div>
+        <ul className="space-y-3">
+          {courseStats.map(({ course, completed, remaining }) => {
+            const total = completed + remaining;
+            return (
+              <li key={course}>
+                <div className="flex items-baseline justify-between text-xs mb-1">
+                  <span className="font-semibold text-gray-800 dark:text-gray-200 truncate transition-colors duration-300">{course}</span>
+                  <span className="font-mono text-gray-500 dark:text-gray-400 transition-colors duration-300">{completed}/{total}</span>
+                </div>
+                <div
+                  className="h-2 rounded-full bg-gray-100 dark:bg-gray-700 overflow-hidden"
+                  role="progressbar"
+                  aria-label={`${course}: ${completed} of ${total} sessions done`}
+                  aria-valuenow={completed}
+                  aria-valuemin={0}
+                  aria-valuemax={total}
+                >
+                  <div className="h-full bg-blue-600 dark:bg-blue-400" style={{ width: `${(completed / total) * 100}%` }} />
+                </div>
+              </li>
+            );
+          })}
+        </ul>
+      </section>
+
+      {/* Weekly load */}
+      <section className="p-4 bg-white dark:bg-gray-800 rounded-2xl border border-gray-100 dark:border-gray-700 transition-colors duration-300">
+        <h3 className="text-sm font-bold text-gray-900 dark:text-gray-100 mb-3 transition-colors duration-300">Classes per week</h3>
+        <div className="flex items-end gap-1 h-32">
+          {weeklyLoad.map(({ weekStart, classes }) => {
+            const isCurrent = weekStart.getTime() === currentWeek;
+            const label = weekStart.toLocaleDateString('en-US', { month: 'short', day: 'numeric' });
+            return (
+              <button
+                key={weekStart.getTime()}
+                onClick={() => onSelectDate(weekStart)}
+                className="flex-1 h-full flex flex-col justify-end group"
+                title={`Week of ${label}: ${classes} classes`}
+                aria-label={`Week of ${label}: ${classes} classes`}
+              >
+                <div
+                  className={`w-full rounded-t-md transition-colors duration-300 ${
+                    isCurrent
+                      ? 'bg-blue-600 dark:bg-blue-400'
+                      : 'bg-blue-200 dark:bg-blue-900/60 group-hover:bg-blue-300 dark:group-hover:bg-blue-800'
+                  }`}
+                  style={{ height: `${(classes / maxWeekLoad) * 100}%` }}
+                />
+              </button>
+            );
+          })}
+        </div>
+        {weeklyLoad.length > 0 && (
+          <div className="flex justify-between mt-1 text-[10px] text-gray-400 dark:text-gray-500 transition-colors duration-300">
+            <span>{weeklyLoad[0].weekStart.toLocaleDateString('en-US', { month: 'short', day: 'numeric' })}</span>
+            <span>Peak {maxWeekLoad}/week</span>
+            <span>{weeklyLoad[weeklyLoad.length - 1].weekStart.toLocaleDateString('en-US', { month: 'short', day: 'numeric' })}</span>
+          </div>
+        )}
+      </section>
+
+      {/* Busiest days */}
+      <section className="p-4 bg-white dark:bg-gray-800 rounded-2xl border border-gray-100 dark:border-gray-700 transition-colors duration-300">
+        <h3 className="text-sm font-bold text-gray-900 dark:text-gray-100 mb-2 transition-colors duration-300">Busiest days</h3>
+        <ul className="divide-y divide-gray-100 dark:divide-gray-700">
+          {busiestDays.map((day) => (
+            <li key={day.dateObj.toDateString()}>
+              <button
+                onClick={() => onSelectDate(day.dateObj)}
+                className="w-full flex items-center justify-between py-2 text-left text-sm hover:underline"
+              >
+                <span className="text-gray-700 dark:text-gray-300 transition-colors duration-300">
+                  {day.dateObj.toLocaleDateString('en-US', { weekday: 'short', month: 'short', day: 'numeric' })}
+                </span>
+                <span className="font-mono text-xs font-bold text-gray-900 dark:text-gray-100 transition-colors duration-300">
+                  {day.slots.length} classes
+                </span>
+              </button>
+            </li>
+          ))}
+        </ul>
+      </section>
+    </div>
+  );
+};
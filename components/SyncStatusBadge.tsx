@@ -0,0 +1,56 @@
+import React, { useEffect, useState } from 'react';
+import { CloudOff, RefreshCw } from 'lucide-react';
+
+interface SyncStatusBadgeProps {
+  lastSynced: Date | null;
+  isOffline: boolean;
+  isRefreshing: boolean;
+}
+
+// Human-readable "N minutes ago" for the last sync time
+const formatSyncAge = (lastSynced: Date, now: Date): string => {
+  const minutes = Math.floor((now.getTime() - lastSynced.getTime()) / 60000);
+
+  if (minutes < 1) return 'just now';
+  if (minutes < 60) return `${minutes} min${minutes === 1 ? '' : 's'} ago`;
+
+  const hours = Math.floor(minutes / 60);
+  if (hours < 24) return `${hours} hour${hours === 1 ? '' : 's'} ago`;
+
+  const days = Math.floor(hours / 24);
+  return `${days} day${days === 1 ? '' : 's'} ago`;
+};
+
+export const SyncStatusBadge: React.FC<SyncStatusBadgeProps> = ({ lastSynced, isOffline, isRefreshing }) => {
+  const [now, setNow] = useState(() => new Date());
+
+  // Re-render every minute so the relative time stays accurate
+  useEffect(() => {
+    const interval = setInterval(() => setNow(new Date()), 60000);
+    return () => clearInterval(interval);
+  }, []);
+
+  if (!lastSynced && !isOffline) {
+    return null;
+  }
+
+  const label = lastSynced ? `Synced ${formatSyncAge(lastSynced, now)}` : 'Not synced';
+
+  return (
+    <span
+      className={`mt-1 inline-flex items-center gap-1 px-2 py-0.5 rounded-full text-[10px] font-semibold border transition-colors duration-300 ${
+        isOffline
+          ? 'bg-amber-50 dark:bg-amber-900/30 text-amber-700 dark:text-amber-300 border-amber-100 dark:border-amber-800'
+          : 'bg-gray-50 dark:bg-gray-700/60 text-gray-500 dark:text-gray-400 border-gray-100 dark:border-gray-600'
+      }`}
+      title={lastSynced ? lastSynced.toLocaleString() : undefined}
+    >
+      {isOffline ? (
+        <CloudOff className="w-3 h-3" />
+      ) : (
+        <RefreshCw className={`w-3 h-3 ${isRefreshing ? 'animate-spin' : ''}`} />
+      )}
+      {isOffline ? `Offline · ${label.toLowerCase()}` : label}
+    </span>
+  );
+};
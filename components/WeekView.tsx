@@ -0,0 +1,162 @@
+import React, { useMemo, useRef } from 'react';
+import { DaySchedule } from '../types';
+import { addDays, getWeekStart } from '../services/termService';
+import { getSubjectStyles } from './ClassCard';
+import { ChevronLeft, ChevronRight } from 'lucide-react';
+
+interface WeekViewProps {
+  templateSlotTimes: string[]; // The section's configured slot times, for rows with no classes yet
+  timetableData: DaySchedule[];
+  currentDate: Date;
+  onChangeWeek: (date: Date) => void;
+  onOpenDay: (date: Date) => void;
+  isDarkMode: boolean;
+}
+
+// Minimum horizontal travel (px) for a touch to count as a swipe
+const SWIPE_THRESHOLD = 50;
+
+// Monday to Saturday
+const DAYS_IN_WEEK = 6;
+
+export const WeekView: React.FC<WeekViewProps> = ({ templateSlotTimes, timetableData, currentDate, onChangeWeek, onOpenDay, isDarkMode }) => {
+  const touchStartX = useRef<number | null>(null);
+
+  // Row label per slot column: the time most classes in that column start at,
+  // so a one-off override doesn't relabel the whole row
+  const slotTimes = useMemo(() => {
+    const counts = templateSlotTimes.map(() => new Map<string, number>());
+    timetableData.forEach((day) => {
+      day.slots.forEach((slot) => {
+        const column = counts[slot.slotIndex] ?? (counts[slot.slotIndex] = new Map());
+        column.set(slot.startTime, (column.get(slot.startTime) || 0) + 1);
+      });
+    });
+    return counts.map((column, index) => {
+      const [mostCommon] = [...column.entries()].sort((a, b) => b[1] - a[1]);
+      return mostCommon?.[0] ?? templateSlotTimes[index] ?? '';
+    });
+  }, [templateSlotTimes, timetableData]);
+
+  const weekStart = useMemo(() => getWeekStart(currentDate), [currentDate]);
+  const weekDays = useMemo(
+    () => Array.from({ length: DAYS_IN_WEEK }, (_, i) => addDays(weekStart, i)),
+    [weekStart]
+  );
+
+  // Look up each day's schedule once for the grid cells
+  const scheduleByDay = useMemo(() => {
+    const map = new Map<string, DaySchedule>();
+    timetableData.forEach((day) => map.set(day.dateObj.toDateString(), day));
+    return map;
+  }, [timetableData]);
+
+  const todayStr = new Date().toDateString();
+  const weekLabel = `${weekDays[0].toLocaleDateString('en-US', { month: 'short', day: 'numeric' })} – ${weekDays[DAYS_IN_WEEK - 1].toLocaleDateString('en-US', { month: 'short', day: 'numeric' })}`;
+
+  const goToWeek = (offset: number) => {
+    onChangeWeek(addDays(weekStart, offset * 7));
+  };
+
+  const handleTouchStart = (e: React.TouchEvent) => {
+    touchStartX.current = e.touches[0].clientX;
+  };
+
+  const handleTouchEnd = (e: React.TouchEvent) => {
+    if (touchStartX.current === null) return;
+    const deltaX = e.changedTouches[0].clientX - touchStartX.current;
+    touchStartX.current = null;
+
+    if (Math.abs(deltaX) >= SWIPE_THRESHOLD) {
+      // Swipe left shows the next week, swipe right the previous one
+      goToWeek(deltaX < 0 ? 1 : -1);
+    }
+  };
+
+  return (
+    <div
+      className="animate-in fade-in duration-300"
+      onTouchStart={handleTouchStart}
+      onTouchEnd={handleTouchEnd}
+    >
+      <div className="flex items-center justify-between mb-3">
+        <button
+          onClick={() => goToWeek(-1)}
+          className="p-2 rounded-full hover:bg-gray-100 dark:hover:bg-gray-800 transition-colors active:scale-95"
+          aria-label="Previous week"
+        >
+          <ChevronLeft className="w-5 h-5 text-gray-600 dark:text-gray-400" />
+        </button>
+        <span className="text-sm font-semibold text-gray-700 dark:text-gray-300 transition-colors duration-300">{weekLabel}</span>
+        <button
+          onClick={() => goToWeek(1)}
+          className="p-2 rounded-full hover:bg-gray-100 dark:hover:bg-gray-800 transition-colors active:scale-95"
+          aria-label="Next week"
+        >
+          <ChevronRight className="w-5 h-5 text-gray-600 dark:text-gray-400" />
+        </button>
+      </div>
+
+      <div className="grid grid-cols-[3rem_repeat(6,minmax(0,1fr))] gap-1">
+        {/* Day headers */}
+        <div />
+        {weekDays.map((day) => {
+          const isToday = day.toDateString() === todayStr;
+          return (
+            <button
+              key={day.toDateString()}
+              onClick={() => onOpenDay(day)}
+              className={`flex flex-col items-center py-1 rounded-lg transition-colors duration-300 ${
+                isToday
+                  ? 'bg-blue-600 dark:bg-blue-500 text-white'
+                  : 'text-gray-500 dark:text-gray-400 hover:bg-gray-100 dark:hover:bg-gray-800'
+              }`}
+            >
+              <span className="text-[10px] font-medium uppercase">{day.toLocaleDateString('en-US', { weekday: 'short' })}</span>
+              <span className={`text-sm font-bold ${isToday ? 'text-white' : 'text-gray-900 dark:text-gray-100'}`}>{day.getDate()}</span>
+            </button>
+          );
+        })}
+
+        {/* One row per slot */}
+        {slotTimes.map((time, slotIndex) => (
+          <React.Fragment key={slotIndex}>
+            <div className="flex items-center justify-center text-[10px] font-mono font-bold text-gray-400 dark:text-gray-500 transition-colors duration-300">
+              {time}
+            </div>
+            {weekDays.map((day) => {
+              // Merged sections can put more than one class in the same slot row
+              const slots = scheduleByDay.get(day.toDateString())?.slots.filter((s) => s.slotIndex === slotIndex) ?? [];
+              const [slot] = slots;
+              return slot ? (
+                <button
+                  key={`${day.toDateString()}-${slotIndex}`}
+                  onClick={() => onOpenDay(day)}
+                  className={`h-14 p-1 rounded-lg border text-[10px] font-semibold leading-tight overflow-hidden break-words text-left transition-all duration-300 active:scale-95 ${getSubjectStyles(slot.subject)} ${slots.length > 1 ? 'ring-1 ring-red-400 dark:ring-red-500' : ''}`}
+                  title={slots.map((s) => `${s.subject}${s.section ? ` (${s.section})` : ''} · ${s.startTime}–${s.endTime}`).join('\n')}
+                >
+                  {slot.subject}
+                  {slot.startTime !== time && (
+                    <span className="block font-mono font-normal opacity-75">{slot.startTime}</span>
+                  )}
+                  {slots.length > 1 && (
+                    <span className="block font-normal opacity-75">+{slots.length - 1} more</span>
+                  )}
+                </button>
+              ) : (
+                <div
+                  key={`${day.toDateString()}-${slotIndex}`}
+                  className="h-14 rounded-lg border border-dashed border-gray-100 dark:border-gray-800 transition-colors duration-300"
+                />
+              );
+            })}
+          </React.Fragment>
+        ))}
+      </div>
+
+      <p className="mt-4 text-center text-xs text-gray-400 dark:text-gray-500 transition-colors duration-300">
+        Swipe to change week · tap a class to open the day
+      </p>
+    </div>
+  );
+};
@@ -1,28 +1,63 @@
+import { AcademicTermConfig, ProgrammeConfig } from './types';
 
 // For this public sheet, we use the gviz endpoint which doesn't require an API key.
 // SPREADSHEET_ID must correspond to a "Published to the web" or publicly viewable sheet.
 export const SPREADSHEET_ID = "1JYuF1u1r5OE4kEQl-USajOC8S4VjbHUnz_jpUz35qHs";
 export const SHEET_TAB_NAME = "TimeTable";
+// Optional tab mapping subjects to faculty, room and notes (header row: Subject, Faculty, Room, Notes).
+// Most sheets don't have one, so it is only fetched when set here, in a batch's source
+// (detailsTabName) or in the timetable link (&detailsTab=) - each costs a second request per load.
+export const SUBJECT_DETAILS_TAB_NAME: string | undefined = undefined;
 
-export const SECTIONS: string[] = ['A', 'B', 'C', 'D', 'E'];
+// Academic term boundaries (Oct 1 - Mar 31). The year is resolved at runtime
+// from the current date, so this only needs changing if the term dates move.
+// The term stays current through April, when end-of-term exams are still on the sheet.
+export const ACADEMIC_TERM_CONFIG: AcademicTermConfig = {
+  startMonth: 9, // October
+  startDay: 1,
+  endMonth: 2,   // March
+  endDay: 31,
+  graceDays: 30
+};
 
-// Slots for Sections A, D, E
-export const SLOTS_ADE = ["09:15", "11:00", "12:45", "15:15", "17:15", "19:00"];
+// Programmes and their batches. Each batch describes its sections' template layout;
+// the sheet's own "Section X" and time headers take precedence when present.
+// Another batch with its own sheet is added as e.g.
+//   { id: '2026', name: '2026 batch', source: { type: 'gviz', spreadsheetId: '…', tabName: 'TimeTable' },
+//     slotTimes: [...], classDurationMinutes: 90 }
+// and its sections are then read from the sheet's headers.
+export const PROGRAMMES: ProgrammeConfig[] = [
+  {
+    id: 'main',
+    name: 'Main programme',
+    batches: [
+      {
+        id: 'current',
+        name: 'Current batch',
+        // Sections B and C usually start 15 minutes earlier
+        slotTimes: ["09:15", "11:00", "12:45", "15:15", "17:15", "19:00"],
+        classDurationMinutes: 90,
+        sections: [
+          { id: 'A', startColumn: 3 },  // Column D (0-indexed -> 3)
+          { id: 'B', startColumn: 9, slotTimes: ["09:00", "10:45", "12:30", "15:00", "16:45", "18:30"] },  // Column J
+          { id: 'C', startColumn: 15, slotTimes: ["09:00", "10:45", "12:30", "15:00", "16:45", "18:30"] }, // Column P
+          { id: 'D', startColumn: 21 }, // Column V
+          { id: 'E', startColumn: 27 }, // Column AB
+        ],
+      },
+    ],
+  },
+];
 
-// Slots for Sections B, C (15 minutes earlier shift usually)
-export const SLOTS_BC = ["09:00", "10:45", "12:30", "15:00", "16:45", "18:30"];
+// Transient timetable load failures are retried this many times in all, waiting 1s, 2s, 4s… between tries
+export const FETCH_RETRY_ATTEMPTS = 3;
+export const FETCH_RETRY_BASE_DELAY_MS = 1000;
 
-export const getSectionSlots = (section: string): string[] => {
-  if (section === 'B' || section === 'C') {
-    return SLOTS_BC;
-  }
-  return SLOTS_ADE;
-};
+// The service worker re-reads the timetable in the background at most this often, and gives up
+// on a refresh that hasn't finished within the timeout so alarm checks aren't held up
+export const BACKGROUND_REFRESH_INTERVAL_MS = 60 * 60 * 1000;
+export const BACKGROUND_REFRESH_TIMEOUT_MS = 30 * 1000;
 
-export const SECTION_COLUMN_MAP: Record<string, number> = {
-  'A': 3,  // Column D (0-indexed -> 3)
-  'B': 9,  // Column J
-  'C': 15, // Column P
-  'D': 21, // Column V
-  'E': 27  // Column AB
-};
+// Minimum attendance per course (percent); courses within the warning margin are flagged early
+export const MIN_ATTENDANCE_PERCENT = 75;
+export const ATTENDANCE_WARNING_MARGIN_PERCENT = 5;
@@ -0,0 +1,25 @@
+// Messages exchanged between the app and the alarm service worker
+
+import { StoredAlarm } from './alarmStore';
+
+// Sent by the app when the stored alarms or the timetable change
+export type AppToWorkerMessage =
+  | { type: 'ALARM_UPDATED'; alarm: StoredAlarm }
+  | { type: 'ALARM_REMOVED'; alarmId: string }
+  | { type: 'ALARMS_CLEARED' }
+  | { type: 'CHECK_ALARMS' }
+  | { type: 'SCHEDULE_CHANGED'; changes: string[] }; // Descriptions of changes to alarmed classes
+
+// Sent by the service worker to every open window, which plays or stops the alarm sound
+export type WorkerToAppMessage =
+  | { type: 'ALARM_RINGING'; alarmId: string; alarm: StoredAlarm }
+  | { type: 'ALARM_STOPPED'; alarmId: string };
+
+/**
+ * Post a message to the active service worker, if there is one
+ */
+export const postToServiceWorker = (message: AppToWorkerMessage): void => {
+  if ('serviceWorker' in navigator && navigator.serviceWorker.controller) {
+    navigator.serviceWorker.controller.postMessage(message);
+  }
+};
@@ -1,40 +1,35 @@
 // Alarm service to handle scheduling and notifications with persistent storage
 
-export interface AlarmInfo {
-  id: string;
-  time: string; // Class start time in HH:MM format
-  subject: string;
-  date: Date;
-  alarmTime: Date; // 10 minutes before class
-  enabled: boolean;
-}
-
-// IndexedDB database name and version
-const DB_NAME = 'TimetableAlarms';
-const DB_VERSION = 1;
-const STORE_NAME = 'alarms';
+import { DaySchedule, ScheduleChange } from '../types';
+import { describeScheduleChange } from './diffService';
+import { getClassIdSubject, isAssessmentSubject } from './subjectService';
+import { ALARM_LEAD_MINUTES, AlarmInfo, STORE_NAME, StoredAlarm, fromStoredAlarm, initDB, toStoredAlarm } from './alarmStore';
+import { postToServiceWorker } from './alarmMessages';
 
-// Initialize IndexedDB
-const initDB = (): Promise<IDBDatabase> => {
-  return new Promise((resolve, reject) => {
-    const request = indexedDB.open(DB_NAME, DB_VERSION);
+// Reminder offsets in minutes before class. Exams can use their own offsets.
+export interface ReminderSettings {
+  offsets: number[];
+  examOffsets: number[] | null; // null = same as regular classes
+  assessmentDayBefore: boolean; // Extra reminder 24h before quizzes and exams, even without class alarms
+}
 
-    request.onerror = () => reject(request.error);
-    request.onsuccess = () => resolve(request.result);
+// Lead time of the optional day-before reminder for assessments
+export const DAY_BEFORE_LEAD_MINUTES = 24 * 60;
 
-    request.onupgradeneeded = (event) => {
-      const db = (event.target as IDBOpenDBRequest).result;
-      if (!db.objectStoreNames.contains(STORE_NAME)) {
-        const objectStore = db.createObjectStore(STORE_NAME, { keyPath: 'id' });
-        objectStore.createIndex('alarmTime', 'alarmTime', { unique: false });
-      }
-    };
-  });
+export const DEFAULT_REMINDER_SETTINGS: ReminderSettings = {
+  offsets: [ALARM_LEAD_MINUTES],
+  examOffsets: null,
+  assessmentDayBefore: false,
 };
 
+const REMINDER_SETTINGS_KEY = 'timetable_reminder_settings';
+
 // Store active alarms in memory (for immediate cancellation)
 const activeAlarms: Map<string, NodeJS.Timeout> = new Map();
 
+// Longest delay setTimeout supports (~24.8 days); later alarms rely on the service worker
+const MAX_TIMEOUT_MS = 2147483647;
+
 /**
  * Parse time string (HH:MM format) and return Date object for today
  */
@@ -46,14 +41,90 @@ export const parseTimeString = (timeStr: string, date: Date): Date => {
 };
 
 /**
- * Calculate alarm time (10 minutes before class)
+ * Calculate alarm time (leadMinutes before class)
  */
-export const calculateAlarmTime = (classTime: Date): Date => {
+export const calculateAlarmTime = (classTime: Date, leadMinutes: number = ALARM_LEAD_MINUTES): Date => {
   const alarmTime = new Date(classTime);
-  alarmTime.setMinutes(alarmTime.getMinutes() - 10);
+  alarmTime.setMinutes(alarmTime.getMinutes() - leadMinutes);
   return alarmTime;
 };
 
+// Keep offsets unique, non-negative and sorted from earliest reminder to latest
+const normalizeOffsets = (offsets: unknown): number[] => {
+  if (!Array.isArray(offsets)) return [];
+  const valid = offsets.filter((offset): offset is number => Number.isInteger(offset) && offset >= 0);
+  return Array.from(new Set(valid)).sort((a, b) => b - a);
+};
+
+/**
+ * Load the user's reminder settings from localStorage
+ */
+export const getReminderSettings = (): ReminderSettings => {
+  const saved = localStorage.getItem(REMINDER_SETTINGS_KEY);
+  if (!saved) return DEFAULT_REMINDER_SETTINGS;
+
+  try {
+    const parsed = JSON.parse(saved);
+    const offsets = normalizeOffsets(parsed.offsets);
+    const examOffsets = parsed.examOffsets ? normalizeOffsets(parsed.examOffsets) : null;
+    return {
+      offsets: offsets.length > 0 ? offsets : DEFAULT_REMINDER_SETTINGS.offsets,
+      examOffsets: examOffsets && examOffsets.length > 0 ? examOffsets : null,
+      assessmentDayBefore: parsed.assessmentDayBefore === true,
+    };
+  } catch {
+    return DEFAULT_REMINDER_SETTINGS;
+  }
+};
+
+/**
+ * Save the user's reminder settings to localStorage
+ */
+export const saveReminderSettings = (settings: ReminderSettings): void => {
+  localStorage.setItem(REMINDER_SETTINGS_KEY, JSON.stringify({
+    offsets: normalizeOffsets(settings.offsets),
+    examOffsets: settings.examOffsets ? normalizeOffsets(settings.examOffsets) : null,
+    assessmentDayBefore: settings.assessmentDayBefore,
+  }));
+};
+
+/**
+ * Get the reminder offsets that apply to a class
+ */
+export const getReminderOffsets = (subject: string, settings: ReminderSettings): number[] => {
+  const offsets = isAssessmentSubject(subject) && settings.examOffsets ? settings.examOffsets : settings.offsets;
+  return [...getDayBeforeOffsets(subject, settings), ...offsets];
+};
+
+/**
+ * The day-before reminder, if it applies to this class
+ */
+export const getDayBeforeOffsets = (subject: string, settings: ReminderSettings): number[] => {
+  return settings.assessmentDayBefore && isAssessmentSubject(subject) ? [DAY_BEFORE_LEAD_MINUTES] : [];
+};
+
+const formatLeadMinutes = (minutes: number): string => {
+  return minutes === DAY_BEFORE_LEAD_MINUTES ? '1 day' : `${minutes} min`;
+};
+
+/**
+ * Describe offsets for UI text, e.g. "30 & 2 min before class"
+ */
+export const formatReminderOffsets = (offsets: number[]): string => {
+  if (offsets.length === 0) return 'no reminder';
+  if (offsets.length === 1 && offsets[0] === 0) return 'at class start';
+  return `${offsets.map(formatLeadMinutes).join(' & ')} before class`;
+};
+
+/**
+ * Notification text for a reminder
+ */
+export const formatReminderBody = (subject: string, time: string, leadMinutes: number): string => {
+  if (leadMinutes <= 0) return `${subject} starts now (at ${time})`;
+  if (leadMinutes === DAY_BEFORE_LEAD_MINUTES) return `${subject} is tomorrow at ${time}`;
+  return `${subject} starts in ${leadMinutes} minute${leadMinutes === 1 ? '' : 's'} (at ${time})`;
+};
+
 /**
  * Request notification permission
  */
@@ -78,13 +149,13 @@ export const requestNotificationPermission = async (): Promise<boolean> => {
 /**
  * Show notification
  */
-export const showNotification = (subject: string, time: string) => {
+export const showNotification = (subject: string, time: string, leadMinutes: number = ALARM_LEAD_MINUTES) => {
   if (Notification.permission === 'granted') {
     new Notification('Class Reminder', {
-      body: `${subject} starts in 10 minutes (at ${time})`,
+      body: formatReminderBody(subject, time, leadMinutes),
       icon: '/icon.svg',
       badge: '/icon.svg',
-      tag: `alarm-${subject}-${time}`,
+      tag: `alarm-${subject}-${time}-${leadMinutes}`,
       requireInteraction: false,
     });
   }
@@ -98,13 +169,10 @@ export const saveAlarmToDB = async (alarmInfo: AlarmInfo): Promise<void> => {
     const db = await initDB();
     const transaction = db.transaction([STORE_NAME], 'readwrite');
     const store = transaction.objectStore(STORE_NAME);
+    transaction.oncomplete = () => db.close();
     
     // Store alarm with serializable date
-    const alarmData = {
-      ...alarmInfo,
-      date: alarmInfo.date.toISOString(),
-      alarmTime: alarmInfo.alarmTime.toISOString(),
-    };
+    const alarmData = toStoredAlarm(alarmInfo);
     
     await new Promise<void>((resolve, reject) => {
       const request = store.put(alarmData);
@@ -113,12 +181,7 @@ export const saveAlarmToDB = async (alarmInfo: AlarmInfo): Promise<void> => {
     });
     
     // Notify service worker about new alarm
-    if ('serviceWorker' in navigator && navigator.serviceWorker.controller) {
-      navigator.serviceWorker.controller.postMessage({
-        type: 'ALARM_UPDATED',
-        alarm: alarmData,
-      });
-    }
+    postToServiceWorker({ type: 'ALARM_UPDATED', alarm: alarmData });
   } catch (error) {
     console.error('Failed to save alarm to IndexedDB:', error);
   }
@@ -132,6 +195,7 @@ export const removeAlarmFromDB = async (alarmId: string): Promise<void> => {
     const db = await initDB();
     const transaction = db.transaction([STORE_NAME], 'readwrite');
     const store = transaction.objectStore(STORE_NAME);
+    transaction.oncomplete = () => db.close();
     
     await new Promise<void>((resolve, reject) => {
       const request = store.delete(alarmId);
@@ -140,17 +204,36 @@ export const removeAlarmFromDB = async (alarmId: string): Promise<void> => {
     });
     
     // Notify service worker
-    if ('serviceWorker' in navigator && navigator.serviceWorker.controller) {
-      navigator.serviceWorker.controller.postMessage({
-        type: 'ALARM_REMOVED',
-        alarmId,
-      });
-    }
+    postToServiceWorker({ type: 'ALARM_REMOVED', alarmId });
   } catch (error) {
     console.error('Failed to remove alarm from IndexedDB:', error);
   }
 };
 
+/**
+ * Save and remove many alarms in a single transaction on one connection.
+ * The service worker is left to the caller to notify, once, when the batch is done.
+ */
+export const writeAlarmsToDB = async (saved: AlarmInfo[], removedIds: string[]): Promise<void> => {
+  if (saved.length === 0 && removedIds.length === 0) return;
+
+  const db = await initDB();
+  try {
+    const transaction = db.transaction([STORE_NAME], 'readwrite');
+    const store = transaction.objectStore(STORE_NAME);
+    removedIds.forEach((alarmId) => store.delete(alarmId));
+    saved.forEach((alarm) => store.put(toStoredAlarm(alarm)));
+
+    await new Promise<void>((resolve, reject) => {
+      transaction.oncomplete = () => resolve();
+      transaction.onerror = () => reject(transaction.error);
+      transaction.onabort = () => reject(transaction.error);
+    });
+  } finally {
+    db.close();
+  }
+};
+
 /**
  * Get all alarms from IndexedDB
  */
@@ -159,16 +242,12 @@ export const getAllAlarmsFromDB = async (): Promise<AlarmInfo[]> => {
     const db = await initDB();
     const transaction = db.transaction([STORE_NAME], 'readonly');
     const store = transaction.objectStore(STORE_NAME);
+    transaction.oncomplete = () => db.close();
     
     return new Promise((resolve, reject) => {
       const request = store.getAll();
       request.onsuccess = () => {
-        const alarms = request.result.map((alarm: any) => ({
-          ...alarm,
-          date: new Date(alarm.date),
-          alarmTime: new Date(alarm.alarmTime),
-        }));
-        resolve(alarms);
+        resolve(request.result.map((alarm: StoredAlarm) => fromStoredAlarm(alarm)));
       };
       request.onerror = () => reject(request.error);
     });
@@ -182,30 +261,36 @@ export const getAllAlarmsFromDB = async (): Promise<AlarmInfo[]> => {
  * Schedule an alarm (both in memory and IndexedDB)
  */
 export const scheduleAlarm = async (alarmInfo: AlarmInfo): Promise<boolean> => {
-  const alarmId = alarmInfo.id;
-  
+  // Save to IndexedDB for persistence (even if in the past, service worker will handle it)
+  await saveAlarmToDB({ ...alarmInfo, enabled: true });
+
+  // Even if in the past, save to DB - service worker will check periodically
+  armInMemoryAlarm(alarmInfo.id, alarmInfo.alarmTime);
+  return true;
+};
+
+/**
+ * Set the in-memory timeout that nudges the service worker when an alarm is due.
+ * Returns false when the alarm is in the past or too far ahead for setTimeout.
+ */
+const armInMemoryAlarm = (alarmId: string, alarmTime: Date): boolean => {
   // Clear existing alarm if any
   if (activeAlarms.has(alarmId)) {
     clearTimeout(activeAlarms.get(alarmId)!);
+    activeAlarms.delete(alarmId);
   }
 
   const now = new Date();
-  const timeUntilAlarm = alarmInfo.alarmTime.getTime() - now.getTime();
+  const timeUntilAlarm = alarmTime.getTime() - now.getTime();
 
-  // Save to IndexedDB for persistence (even if in the past, service worker will handle it)
-  await saveAlarmToDB({ ...alarmInfo, enabled: true });
-
-  // Only schedule in-memory if alarm is in the future (at least 1 second)
+  // Only schedule in-memory if alarm is in the future (at least 1 second) and within
+  // setTimeout's range; the service worker's periodic check covers everything else.
   // Note: The service worker will handle showing notifications and playing sounds
   // This timeout is just for immediate feedback if the app is open
-  if (timeUntilAlarm > 1000) {
+  if (timeUntilAlarm > 1000 && timeUntilAlarm <= MAX_TIMEOUT_MS) {
     const timeoutId = setTimeout(() => {
       // Service worker will handle the notification, but we can trigger a check
-      if ('serviceWorker' in navigator && navigator.serviceWorker.controller) {
-        navigator.serviceWorker.controller.postMessage({
-          type: 'CHECK_ALARMS',
-        });
-      }
+      postToServiceWorker({ type: 'CHECK_ALARMS' });
       activeAlarms.delete(alarmId);
       // Don't remove from DB - let service worker handle it until dismissed
     }, timeUntilAlarm);
@@ -214,22 +299,40 @@ export const scheduleAlarm = async (alarmInfo: AlarmInfo): Promise<boolean> => {
     return true;
   }
 
-  // Even if in the past, save to DB - service worker will check periodically
-  return true;
+  return false;
 };
 
 /**
- * Cancel an alarm (both in memory and IndexedDB)
+ * Generate the ID of one reminder for a class
  */
-export const cancelAlarm = async (alarmId: string): Promise<void> => {
-  // Cancel in-memory alarm
-  if (activeAlarms.has(alarmId)) {
-    clearTimeout(activeAlarms.get(alarmId)!);
-    activeAlarms.delete(alarmId);
+export const generateReminderId = (classId: string, leadMinutes: number): string => {
+  return `${classId}-${leadMinutes}m`;
+};
+
+/**
+ * Cancel every reminder for a class (both in memory and IndexedDB)
+ */
+export const cancelAlarm = async (classId: string): Promise<void> => {
+  const storedAlarms = await getAllAlarmsFromDB();
+  const alarmIds = new Set(
+    storedAlarms.filter((alarm) => alarm.classId === classId).map((alarm) => alarm.id)
+  );
+  activeAlarms.forEach((_, alarmId) => {
+    if (alarmId.startsWith(`${classId}-`) && /^\d+m$/.test(alarmId.slice(classId.length + 1))) {
+      alarmIds.add(alarmId);
+    }
+  });
+
+  for (const alarmId of alarmIds) {
+    // Cancel in-memory alarm
+    if (activeAlarms.has(alarmId)) {
+      clearTimeout(activeAlarms.get(alarmId)!);
+      activeAlarms.delete(alarmId);
+    }
+
+    // Remove from IndexedDB
+    await removeAlarmFromDB(alarmId);
   }
-  
-  // Remove from IndexedDB
-  await removeAlarmFromDB(alarmId);
 };
 
 /**
@@ -245,6 +348,7 @@ export const cancelAllAlarms = async (): Promise<void> => {
     const db = await initDB();
     const transaction = db.transaction([STORE_NAME], 'readwrite');
     const store = transaction.objectStore(STORE_NAME);
+    transaction.oncomplete = () => db.close();
     
     await new Promise<void>((resolve, reject) => {
       const request = store.clear();
@@ -253,16 +357,144 @@ export const cancelAllAlarms = async (): Promise<void> => {
     });
     
     // Notify service worker
-    if ('serviceWorker' in navigator && navigator.serviceWorker.controller) {
-      navigator.serviceWorker.controller.postMessage({
-        type: 'ALARMS_CLEARED',
-      });
-    }
+    postToServiceWorker({ type: 'ALARMS_CLEARED' });
   } catch (error) {
     console.error('Failed to clear alarms from IndexedDB:', error);
   }
 };
 
+// Classes the user has muted while the master alarm is on
+export interface AlarmOptOuts {
+  days: string[]; // Date.toDateString() of muted days
+  subjects: string[];
+  classes: string[]; // Class IDs from generateAlarmId
+}
+
+export const EMPTY_ALARM_OPT_OUTS: AlarmOptOuts = { days: [], subjects: [], classes: [] };
+
+export interface AlarmSelection {
+  masterAlarmEnabled: boolean;
+  enabledAlarms: Set<string>; // Class IDs picked individually
+  optOuts: AlarmOptOuts;
+  reminderSettings: ReminderSettings;
+}
+
+/**
+ * Whether a class should ring, given the master switch, individual picks and opt-outs
+ */
+export const isClassAlarmEnabled = (classId: string, date: Date, subject: string, selection: AlarmSelection): boolean => {
+  if (selection.enabledAlarms.has(classId)) return true;
+  if (!selection.masterAlarmEnabled) return false;
+
+  const { optOuts } = selection;
+  return !optOuts.classes.includes(classId)
+    && !optOuts.days.includes(date.toDateString())
+    && !optOuts.subjects.includes(subject);
+};
+
+/**
+ * Build every reminder that should exist for the upcoming classes in a timetable
+ */
+export const buildUpcomingAlarms = (
+  schedule: DaySchedule[],
+  selection: AlarmSelection,
+  now: Date = new Date()
+): AlarmInfo[] => {
+  const alarms: AlarmInfo[] = [];
+
+  schedule.forEach((day) => {
+    day.slots.forEach((slot) => {
+      const classTime = parseTimeString(slot.startTime, day.dateObj);
+      // Classes that have already started don't need reminders
+      if (classTime <= now) return;
+
+      const classId = generateAlarmId(day.dateObj, slot.startTime, getClassIdSubject(slot));
+      // The day-before assessment reminder is its own opt-in, independent of class alarms
+      const offsets = isClassAlarmEnabled(classId, day.dateObj, slot.subject, selection)
+        ? getReminderOffsets(slot.subject, selection.reminderSettings)
+        : getDayBeforeOffsets(slot.subject, selection.reminderSettings);
+
+      offsets.forEach((leadMinutes) => {
+        // A day-before reminder for a class less than a day away would ring straight away
+        if (leadMinutes === DAY_BEFORE_LEAD_MINUTES && calculateAlarmTime(classTime, leadMinutes) <= now) return;
+
+        alarms.push({
+          id: generateReminderId(classId, leadMinutes),
+          classId,
+          time: slot.startTime,
+          subject: slot.subject,
+          date: day.dateObj,
+          leadMinutes,
+          alarmTime: calculateAlarmTime(classTime, leadMinutes),
+          enabled: true,
+        });
+      });
+    });
+  });
+
+  return alarms;
+};
+
+// Serialize reconciliations so overlapping syncs don't interleave reads and writes
+let reconcileQueue: Promise<void> = Promise.resolve();
+
+/**
+ * Bring the stored alarms in line with the desired set: add missing reminders and
+ * remove ones that no longer apply, leaving everything else (including snoozes) untouched
+ */
+export const reconcileAlarms = (desired: AlarmInfo[]): Promise<void> => {
+  reconcileQueue = reconcileQueue.then(async () => {
+    try {
+      const storedAlarms = await getAllAlarmsFromDB();
+      const storedIds = new Set(storedAlarms.map((alarm) => alarm.id));
+      const desiredIds = new Set(desired.map((alarm) => alarm.id));
+
+      const removedIds: string[] = [];
+      for (const alarm of storedAlarms) {
+        if (desiredIds.has(alarm.id)) {
+          // Already stored - just make sure the in-memory timer exists after a reload
+          if (!activeAlarms.has(alarm.id)) {
+            armInMemoryAlarm(alarm.id, alarm.alarmTime);
+          }
+          continue;
+        }
+
+        if (activeAlarms.has(alarm.id)) {
+          clearTimeout(activeAlarms.get(alarm.id)!);
+          activeAlarms.delete(alarm.id);
+        }
+        removedIds.push(alarm.id);
+      }
+
+      // Turning on the master switch can add hundreds of reminders at once, so write
+      // them in one transaction and wake the service worker once rather than per alarm
+      const added = desired.filter((alarm) => !storedIds.has(alarm.id)).map((alarm) => ({ ...alarm, enabled: true }));
+      await writeAlarmsToDB(added, removedIds);
+      added.forEach((alarm) => armInMemoryAlarm(alarm.id, alarm.alarmTime));
+      if (added.length > 0) {
+        postToServiceWorker({ type: 'CHECK_ALARMS' });
+      }
+    } catch (error) {
+      console.error('Failed to reconcile alarms:', error);
+    }
+  });
+  return reconcileQueue;
+};
+
+/**
+ * Reconcile stored alarms with the classes in a loaded timetable. An empty timetable means
+ * nothing loaded (a failed first load, or a sheet that parsed to nothing), so the stored
+ * alarms are left alone rather than all deleted.
+ */
+export const reconcileTimetableAlarms = async (
+  schedule: DaySchedule[],
+  selection: AlarmSelection,
+  now: Date = new Date()
+): Promise<void> => {
+  if (schedule.length === 0) return;
+  await reconcileAlarms(buildUpcomingAlarms(schedule, selection, now));
+};
+
 /**
  * Generate unique alarm ID
  */
@@ -271,3 +503,62 @@ export const generateAlarmId = (date: Date, time: string, subject: string): stri
   return `${dateStr}-${time}-${subject}`;
 };
 
+
+/**
+ * Get the alarm ID a changed slot had before the change
+ */
+export const getPreviousAlarmId = (change: ScheduleChange): string => {
+  return generateAlarmId(change.previousDate || change.date, change.previousTime || change.time, getClassIdSubject(change));
+};
+
+/**
+ * Carry per-class alarm selections over to rescheduled slots and drop removed ones
+ */
+export const remapAlarmIds = (alarmIds: Set<string>, changes: ScheduleChange[]): Set<string> => {
+  const remapped = new Set(alarmIds);
+  changes.forEach((change) => {
+    if (change.type === 'added') return;
+
+    const previousId = getPreviousAlarmId(change);
+    if (!remapped.has(previousId)) return;
+
+    remapped.delete(previousId);
+    if (change.type === 'rescheduled') {
+      remapped.add(generateAlarmId(change.date, change.time, getClassIdSubject(change)));
+    }
+  });
+  return remapped;
+};
+
+/**
+ * Carry per-class opt-outs over to rescheduled slots, so a muted class stays muted after it moves
+ */
+export const remapAlarmOptOuts = (optOuts: AlarmOptOuts, changes: ScheduleChange[]): AlarmOptOuts => {
+  return { ...optOuts, classes: Array.from(remapAlarmIds(new Set(optOuts.classes), changes)) };
+};
+
+/**
+ * Raise a notification through the service worker for changed slots that had an alarm.
+ * The alarms themselves are moved by reconcileAlarms once the new timetable is applied.
+ * `isAlarmSet` lets the caller report alarms it tracks outside IndexedDB, e.g. with isClassAlarmEnabled.
+ * Returns the changes that affected an alarm.
+ */
+export const notifyAlarmScheduleChanges = async (
+  changes: ScheduleChange[],
+  isAlarmSet: (alarmId: string, change: ScheduleChange) => boolean = () => false
+): Promise<ScheduleChange[]> => {
+  const storedAlarms = await getAllAlarmsFromDB();
+  const storedClassIds = new Set(storedAlarms.map((alarm) => alarm.classId));
+
+  const affected = changes.filter((change) => {
+    if (change.type === 'added') return false;
+    const previousId = getPreviousAlarmId(change);
+    return storedClassIds.has(previousId) || isAlarmSet(previousId, change);
+  });
+
+  if (affected.length > 0) {
+    postToServiceWorker({ type: 'SCHEDULE_CHANGED', changes: affected.map(describeScheduleChange) });
+  }
+
+  return affected;
+};
@@ -0,0 +1,62 @@
+// Alarm storage shared by the app and the service worker
+
+export interface AlarmInfo {
+  id: string; // Unique per reminder: class ID plus lead time
+  classId: string; // Shared by every reminder for the same class (see generateAlarmId)
+  time: string; // Class start time in HH:MM format
+  subject: string;
+  date: Date;
+  leadMinutes: number; // How long before class this reminder rings
+  alarmTime: Date; // Class start minus leadMinutes
+  enabled: boolean;
+}
+
+// An alarm as kept in IndexedDB and posted between the app and the service worker
+export type StoredAlarm = Omit<AlarmInfo, 'date' | 'alarmTime'> & {
+  date: string; // ISO strings, so the alarmTime index sorts chronologically
+  alarmTime: string;
+};
+
+// Default lead time when nothing else is configured
+export const ALARM_LEAD_MINUTES = 10;
+
+// IndexedDB database name and version
+export const DB_NAME = 'TimetableAlarms';
+export const DB_VERSION = 1;
+export const STORE_NAME = 'alarms';
+
+// Initialize IndexedDB
+export const initDB = (): Promise<IDBDatabase> => {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+    request.onerror = () => reject(request.error);
+    request.onsuccess = () => resolve(request.result);
+
+    request.onupgradeneeded = (event) => {
+      const db = (event.target as IDBOpenDBRequest).result;
+      if (!db.objectStoreNames.contains(STORE_NAME)) {
+        const objectStore = db.createObjectStore(STORE_NAME, { keyPath: 'id' });
+        objectStore.createIndex('alarmTime', 'alarmTime', { unique: false });
+      }
+    };
+  });
+};
+
+export const toStoredAlarm = (alarm: AlarmInfo): StoredAlarm => ({
+  ...alarm,
+  date: alarm.date.toISOString(),
+  alarmTime: alarm.alarmTime.toISOString(),
+});
+
+/**
+ * Read a stored alarm back. Alarms saved before multiple reminders existed had
+ * no classId or leadMinutes and a single 10 minute reminder.
+ */
+export const fromStoredAlarm = (stored: StoredAlarm): AlarmInfo => ({
+  ...stored,
+  classId: stored.classId ?? stored.id,
+  leadMinutes: stored.leadMinutes ?? ALARM_LEAD_MINUTES,
+  date: new Date(stored.date),
+  alarmTime: new Date(stored.alarmTime),
+});
@@ -0,0 +1,75 @@
+// Pull quizzes and exams out of the timetable
+
+import { DaySchedule, TimeSlot } from '../types';
+import { isAssessmentSubject } from './subjectService';
+import { startOfDay } from './termService';
+import { getClassTiming } from './timeService';
+
+export interface Assessment {
+  course: string; // Subject the assessment belongs to, e.g. "DEM" for "DEM Quiz 1"
+  date: Date;
+  slot: TimeSlot;
+  daysRemaining: number; // 0 = today
+}
+
+// Used for assessments that don't name a subject, like "End Term Exam"
+export const GENERAL_ASSESSMENT_COURSE = 'All subjects';
+
+/**
+ * The subject an assessment belongs to: "DEM Quiz 1" -> "DEM", "Macro Mid Term" -> "Macro"
+ */
+export const getAssessmentCourse = (subject: string): string => {
+  const course = subject
+    .replace(/\b(quiz|exam|mid[\s-]?term|end[\s-]?term|test)\b.*$/i, '')
+    .replace(/[\s\-:–]+$/, '')
+    .trim();
+  return course || GENERAL_ASSESSMENT_COURSE;
+};
+
+/**
+ * Assessments that haven't finished yet, soonest first
+ */
+export const getUpcomingAssessments = (schedule: DaySchedule[], now: Date = new Date()): Assessment[] => {
+  const today = startOfDay(now).getTime();
+  const assessments: Assessment[] = [];
+
+  schedule.forEach((day) => {
+    day.slots.forEach((slot) => {
+      if (!isAssessmentSubject(slot.subject)) return;
+      if (getClassTiming(day.dateObj, slot.startTime, slot.endTime, now).status === 'past') return;
+
+      assessments.push({
+        course: getAssessmentCourse(slot.subject),
+        date: day.dateObj,
+        slot,
+        daysRemaining: Math.round((startOfDay(day.dateObj).getTime() - today) / (24 * 60 * 60 * 1000)),
+      });
+    });
+  });
+
+  return assessments.sort((a, b) =>
+    a.date.getTime() - b.date.getTime() || a.slot.startTime.localeCompare(b.slot.startTime)
+  );
+};
+
+/**
+ * Group assessments by subject, ordered by each subject's next assessment
+ */
+export const groupAssessmentsByCourse = (assessments: Assessment[]): { course: string; assessments: Assessment[] }[] => {
+  const groups = new Map<string, Assessment[]>();
+  assessments.forEach((assessment) => {
+    const group = groups.get(assessment.course) ?? [];
+    group.push(assessment);
+    groups.set(assessment.course, group);
+  });
+  return Array.from(groups, ([course, items]) => ({ course, assessments: items }));
+};
+
+/**
+ * "Today", "Tomorrow", "in 12 days"
+ */
+export const formatDaysRemaining = (days: number): string => {
+  if (days <= 0) return 'Today';
+  if (days === 1) return 'Tomorrow';
+  return `in ${days} days`;
+};
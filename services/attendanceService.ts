@@ -0,0 +1,186 @@
+// Attendance marks per class, stored locally and kept across timetable re-syncs
+
+import { ATTENDANCE_WARNING_MARGIN_PERCENT, MIN_ATTENDANCE_PERCENT } from '../constants';
+import { DaySchedule, ScheduleChange } from '../types';
+import { generateAlarmId, getPreviousAlarmId } from './alarmService';
+import { getCourseStats } from './statsService';
+import { getClassIdSubject, normalizeCourseKey, splitSubjectOptions } from './subjectService';
+
+export type AttendanceStatus = 'attended' | 'missed' | 'cancelled';
+
+export interface AttendanceRecord {
+  id: string; // Class ID from generateAlarmId
+  status: AttendanceStatus;
+  subject: string;
+  date: Date;
+  time: string;
+  markedAt: Date;
+}
+
+export type AttendanceLevel = 'ok' | 'warning' | 'danger';
+
+export interface CourseAttendance {
+  course: string;
+  attended: number;
+  missed: number;
+  cancelled: number;
+  percent: number | null; // null until something has been marked attended or missed
+  canMiss: number | null; // Further absences allowed over the term while staying above the minimum
+  level: AttendanceLevel;
+}
+
+// IndexedDB database name and version
+const DB_NAME = 'TimetableAttendance';
+const DB_VERSION = 1;
+const STORE_NAME = 'attendance';
+
+// Initialize IndexedDB
+const initDB = (): Promise<IDBDatabase> => {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+    request.onerror = () => reject(request.error);
+    request.onsuccess = () => resolve(request.result);
+
+    request.onupgradeneeded = (event) => {
+      const db = (event.target as IDBOpenDBRequest).result;
+      if (!db.objectStoreNames.contains(STORE_NAME)) {
+        db.createObjectStore(STORE_NAME, { keyPath: 'id' });
+      }
+    };
+  });
+};
+
+/**
+ * Every attendance mark, keyed by class ID
+ */
+export const getAllAttendance = async (): Promise<Map<string, AttendanceRecord>> => {
+  const db = await initDB();
+  const transaction = db.transaction([STORE_NAME], 'readonly');
+  const store = transaction.objectStore(STORE_NAME);
+
+  return new Promise((resolve, reject) => {
+    const request = store.getAll();
+    request.onsuccess = () => {
+      const records = new Map<string, AttendanceRecord>();
+      request.result.forEach((record: any) => {
+        records.set(record.id, {
+          ...record,
+          date: new Date(record.date),
+          markedAt: new Date(record.markedAt),
+        });
+      });
+      resolve(records);
+    };
+    request.onerror = () => reject(request.error);
+  });
+};
+
+/**
+ * Mark a class, or clear its mark when status is null.
+ * Pass the slot's cellSubject when subject shows only part of a combined cell.
+ */
+export const saveAttendance = async (
+  date: Date,
+  time: string,
+  subject: string,
+  status: AttendanceStatus | null,
+  cellSubject?: string
+): Promise<AttendanceRecord | null> => {
+  const id = generateAlarmId(date, time, getClassIdSubject({ subject, cellSubject }));
+  const db = await initDB();
+  const transaction = db.transaction([STORE_NAME], 'readwrite');
+  const store = transaction.objectStore(STORE_NAME);
+
+  if (status === null) {
+    await new Promise<void>((resolve, reject) => {
+      const request = store.delete(id);
+      request.onsuccess = () => resolve();
+      request.onerror = () => reject(request.error);
+    });
+    return null;
+  }
+
+  const record: AttendanceRecord = { id, status, subject, date, time, markedAt: new Date() };
+  await new Promise<void>((resolve, reject) => {
+    const request = store.put({ ...record, date: date.toISOString(), markedAt: record.markedAt.toISOString() });
+    request.onsuccess = () => resolve();
+    request.onerror = () => reject(request.error);
+  });
+  return record;
+};
+
+/**
+ * Move marks on rescheduled classes to their new slot. Marks on removed classes are
+ * kept: the class still happened (or didn't) even if the sheet no longer lists it.
+ */
+export const remapAttendance = async (changes: ScheduleChange[]): Promise<void> => {
+  const rescheduled = changes.filter((change) => change.type === 'rescheduled');
+  if (rescheduled.length === 0) return;
+
+  const records = await getAllAttendance();
+  for (const change of rescheduled) {
+    const previous = records.get(getPreviousAlarmId(change));
+    if (!previous) continue;
+
+    await saveAttendance(previous.date, previous.time, previous.subject, null, getClassIdSubject(change));
+    await saveAttendance(change.date, change.time, change.subject, previous.status, change.cellSubject);
+  }
+};
+
+/**
+ * Attendance percentage per course, with how many more classes can be missed.
+ * Cancelled classes don't count either way.
+ */
+export const getCourseAttendance = (
+  records: Map<string, AttendanceRecord>,
+  schedule: DaySchedule[],
+  minPercent: number = MIN_ATTENDANCE_PERCENT,
+  now: Date = new Date()
+): CourseAttendance[] => {
+  const courses = new Map<string, CourseAttendance>();
+  const sessionTotals = new Map<string, number>();
+  const emptyEntry = (course: string): CourseAttendance => ({
+    course, attended: 0, missed: 0, cancelled: 0, percent: null, canMiss: null, level: 'ok',
+  });
+
+  // Start from the timetable so courses without marks are listed too
+  getCourseStats(schedule, now).forEach(({ course, completed, remaining }) => {
+    const key = normalizeCourseKey(course);
+    courses.set(key, emptyEntry(course));
+    sessionTotals.set(key, completed + remaining);
+  });
+
+  // Combined cells count for each course, as in the session stats
+  records.forEach((record) => {
+    splitSubjectOptions(record.subject).forEach((option) => {
+      const key = normalizeCourseKey(option);
+      const entry = courses.get(key) ?? emptyEntry(option);
+      entry[record.status]++;
+      courses.set(key, entry);
+    });
+  });
+
+  return Array.from(courses.entries()).map(([key, entry]) => {
+    const marked = entry.attended + entry.missed;
+    const exactPercent = marked > 0 ? (entry.attended / marked) * 100 : null;
+
+    const totalSessions = sessionTotals.get(key);
+    const canMiss = totalSessions !== undefined
+      ? Math.max(0, Math.floor((totalSessions - entry.cancelled) * (1 - minPercent / 100)) - entry.missed)
+      : null;
+
+    let level: AttendanceLevel = 'ok';
+    if (exactPercent !== null && exactPercent < minPercent) {
+      level = 'danger';
+    } else if (
+      (exactPercent !== null && exactPercent < minPercent + ATTENDANCE_WARNING_MARGIN_PERCENT) ||
+      (canMiss !== null && canMiss <= 1 && entry.missed > 0)
+    ) {
+      level = 'warning';
+    }
+
+    const percent = exactPercent !== null ? Math.round(exactPercent) : null;
+    return { ...entry, percent, canMiss, level };
+  }).sort((a, b) => (a.percent ?? 101) - (b.percent ?? 101) || a.course.localeCompare(b.course));
+};
@@ -0,0 +1,299 @@
+// Background timetable refresh, run by the service worker between app launches
+
+import { BACKGROUND_REFRESH_INTERVAL_MS, BACKGROUND_REFRESH_TIMEOUT_MS } from '../constants';
+import { ScheduleChange, Section, TimetableSourceConfig } from '../types';
+import { AlarmInfo } from './alarmStore';
+import {
+  calculateAlarmTime,
+  generateAlarmId,
+  generateReminderId,
+  getAllAlarmsFromDB,
+  getPreviousAlarmId,
+  parseTimeString,
+  writeAlarmsToDB,
+} from './alarmService';
+import { getCachedTimetable, saveTimetableToCache } from './cacheService';
+import { diffTimetables } from './diffService';
+import { findBatch } from './programmeService';
+import { fetchTimetable } from './sheetService';
+import { createTimetableSource } from './sourceService';
+import { filterScheduleBySubjects, getClassIdSubject } from './subjectService';
+import { getAcademicTerm } from './termService';
+
+// What the app last loaded, mirrored here because the service worker can't read localStorage
+export interface BackgroundSyncConfig {
+  source: TimetableSourceConfig;
+  batchId: string;
+  // Subjects unticked in My subjects; missing from configs saved before it was mirrored
+  sections: { section: Section; storageKey: string; hiddenSubjects?: string[] }[];
+  lastRefreshAt: string; // ISO time the timetable was last fetched, by the app or in the background
+}
+
+export const PERIODIC_SYNC_TAG = 'timetable-refresh';
+
+// IndexedDB database name and version
+const DB_NAME = 'TimetableBackgroundSync';
+const DB_VERSION = 2;
+const STORE_NAME = 'config';
+const CHANGES_STORE_NAME = 'changes';
+const CONFIG_KEY = 'current';
+
+// Changes a background refresh found in a section, kept until the app has shown them
+interface PendingScheduleChanges {
+  storageKey: Section;
+  sourceKey: string;
+  changes: ScheduleChange[];
+}
+
+// Initialize IndexedDB
+const initDB = (): Promise<IDBDatabase> => {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+    request.onerror = () => reject(request.error);
+    request.onsuccess = () => {
+      const db = request.result;
+      // Let a newer app or worker upgrade the database instead of waiting on this connection
+      db.onversionchange = () => db.close();
+      resolve(db);
+    };
+
+    request.onupgradeneeded = (event) => {
+      const db = (event.target as IDBOpenDBRequest).result;
+      if (!db.objectStoreNames.contains(STORE_NAME)) {
+        db.createObjectStore(STORE_NAME);
+      }
+      if (!db.objectStoreNames.contains(CHANGES_STORE_NAME)) {
+        db.createObjectStore(CHANGES_STORE_NAME, { keyPath: 'storageKey' });
+      }
+    };
+  });
+};
+
+const putConfig = async (config: BackgroundSyncConfig): Promise<void> => {
+  const db = await initDB();
+  const store = db.transaction([STORE_NAME], 'readwrite').objectStore(STORE_NAME);
+  await new Promise<void>((resolve, reject) => {
+    const request = store.put(config, CONFIG_KEY);
+    request.onsuccess = () => resolve();
+    request.onerror = () => reject(request.error);
+  });
+};
+
+/**
+ * Remember what the app just loaded, so background refreshes fetch the same timetable
+ */
+export const saveBackgroundSyncConfig = async (config: Omit<BackgroundSyncConfig, 'lastRefreshAt'>): Promise<void> => {
+  try {
+    await putConfig({ ...config, lastRefreshAt: new Date().toISOString() });
+  } catch (error) {
+    console.error('Failed to save background sync config:', error);
+  }
+};
+
+/**
+ * Mirror a change to My subjects, so background refreshes report the same classes the app shows
+ */
+export const saveBackgroundSyncHiddenSubjects = async (storageKey: Section, hiddenSubjects: string[]): Promise<void> => {
+  try {
+    const config = await getBackgroundSyncConfig();
+    if (!config) return;
+    await putConfig({
+      ...config,
+      sections: config.sections.map((entry) => entry.storageKey === storageKey ? { ...entry, hiddenSubjects } : entry),
+    });
+  } catch (error) {
+    console.error('Failed to save background sync config:', error);
+  }
+};
+
+export const getBackgroundSyncConfig = async (): Promise<BackgroundSyncConfig | null> => {
+  try {
+    const db = await initDB();
+    const store = db.transaction([STORE_NAME], 'readonly').objectStore(STORE_NAME);
+    return await new Promise((resolve, reject) => {
+      const request = store.get(CONFIG_KEY);
+      request.onsuccess = () => resolve(request.result ?? null);
+      request.onerror = () => reject(request.error);
+    });
+  } catch (error) {
+    console.error('Failed to read background sync config:', error);
+    return null;
+  }
+};
+
+/**
+ * Add to the changes waiting for the app. Changes found earlier from another source are dropped,
+ * as the app will no longer show that source's timetable.
+ */
+const addPendingScheduleChanges = async (storageKey: Section, sourceKey: string, changes: ScheduleChange[]): Promise<void> => {
+  const db = await initDB();
+  const store = db.transaction([CHANGES_STORE_NAME], 'readwrite').objectStore(CHANGES_STORE_NAME);
+  await new Promise<void>((resolve, reject) => {
+    const getRequest = store.get(storageKey);
+    getRequest.onsuccess = () => {
+      const pending: PendingScheduleChanges | undefined = getRequest.result;
+      const earlier = pending?.sourceKey === sourceKey ? pending.changes : [];
+      const putRequest = store.put({ storageKey, sourceKey, changes: [...earlier, ...changes] });
+      putRequest.onsuccess = () => resolve();
+      putRequest.onerror = () => reject(putRequest.error);
+    };
+    getRequest.onerror = () => reject(getRequest.error);
+  });
+};
+
+/**
+ * Changes background refreshes applied to a section's cached copy since the app last showed them,
+ * oldest first. Empty if they came from a different source.
+ */
+export const getPendingScheduleChanges = async (storageKey: Section, sourceKey: string): Promise<ScheduleChange[]> => {
+  try {
+    const db = await initDB();
+    const store = db.transaction([CHANGES_STORE_NAME], 'readonly').objectStore(CHANGES_STORE_NAME);
+    const pending = await new Promise<PendingScheduleChanges | undefined>((resolve, reject) => {
+      const request = store.get(storageKey);
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+    return pending?.sourceKey === sourceKey ? pending.changes : [];
+  } catch (error) {
+    console.error('Failed to read pending schedule changes:', error);
+    return [];
+  }
+};
+
+/**
+ * Forget the changes waiting for these sections once the app has shown them
+ */
+export const clearPendingScheduleChanges = async (storageKeys: Section[]): Promise<void> => {
+  try {
+    const db = await initDB();
+    const transaction = db.transaction([CHANGES_STORE_NAME], 'readwrite');
+    const store = transaction.objectStore(CHANGES_STORE_NAME);
+    storageKeys.forEach((storageKey) => store.delete(storageKey));
+    await new Promise<void>((resolve, reject) => {
+      transaction.oncomplete = () => resolve();
+      transaction.onerror = () => reject(transaction.error);
+    });
+  } catch (error) {
+    console.error('Failed to clear pending schedule changes:', error);
+  }
+};
+
+// Stored alarms to rewrite or delete after a background refresh
+export interface AlarmUpdates {
+  updated: AlarmInfo[];
+  removedIds: string[];
+  affected: ScheduleChange[]; // Changes that touched at least one stored alarm
+}
+
+/**
+ * Move alarms for rescheduled classes and drop those for removed (or now past) classes
+ */
+export const planAlarmUpdates = (alarms: AlarmInfo[], changes: ScheduleChange[], now: Date = new Date()): AlarmUpdates => {
+  const changesByClassId = new Map<string, ScheduleChange>();
+  changes.forEach((change) => {
+    if (change.type !== 'added') changesByClassId.set(getPreviousAlarmId(change), change);
+  });
+
+  const updates: AlarmUpdates = { updated: [], removedIds: [], affected: [] };
+  alarms.forEach((alarm) => {
+    const change = changesByClassId.get(alarm.classId);
+    if (!change) return;
+
+    if (!updates.affected.includes(change)) updates.affected.push(change);
+    updates.removedIds.push(alarm.id);
+
+    const classTime = parseTimeString(change.time, change.date);
+    if (change.type === 'rescheduled' && classTime > now) {
+      const classId = generateAlarmId(change.date, change.time, getClassIdSubject(change));
+      updates.updated.push({
+        ...alarm,
+        id: generateReminderId(classId, alarm.leadMinutes),
+        classId,
+        time: change.time,
+        date: change.date,
+        alarmTime: calculateAlarmTime(classTime, alarm.leadMinutes),
+      });
+    }
+  });
+  return updates;
+};
+
+/**
+ * Fetch the timetable the app last showed, cache it and bring the stored alarms in line with it.
+ * The changes are kept with getPendingScheduleChanges until the app opens and shows them.
+ * Skips the refresh unless forced or it has been BACKGROUND_REFRESH_INTERVAL_MS since the last one.
+ * Returns the changes that moved or removed an alarm.
+ */
+export const refreshTimetableInBackground = async (force = false, now: Date = new Date()): Promise<ScheduleChange[]> => {
+  const config = await getBackgroundSyncConfig();
+  // Uploaded files live in localStorage, out of the service worker's reach, and don't change anyway
+  if (!config || config.source.type === 'file') return [];
+  if (!force && now.getTime() - new Date(config.lastRefreshAt).getTime() < BACKGROUND_REFRESH_INTERVAL_MS) return [];
+
+  const selected = findBatch(config.batchId);
+  if (!selected) return [];
+
+  const source = createTimetableSource(config.source);
+  const term = getAcademicTerm(now);
+  const controller = new AbortController();
+  const timeout = setTimeout(() => controller.abort(), BACKGROUND_REFRESH_TIMEOUT_MS);
+
+  try {
+    // Recorded up front so overlapping alarm checks don't start a second refresh
+    await putConfig({ ...config, lastRefreshAt: now.toISOString() });
+    const refreshed = await Promise.all(config.sections.map(async ({ section, storageKey, hiddenSubjects = [] }) => {
+      const cached = await getCachedTimetable(storageKey, source.key);
+      if (!cached) return null;
+      const fetched = await fetchTimetable(section, source, term, selected.batch, controller.signal);
+      // Diff what the app shows, so changes name the same subjects and class IDs as the stored alarms
+      const changes = diffTimetables(
+        filterScheduleBySubjects(cached.data, hiddenSubjects),
+        filterScheduleBySubjects(fetched, hiddenSubjects)
+      );
+      return { storageKey, fetched, changes };
+    }));
+
+    // Keep the changes for the app before replacing the copy they were found against
+    const changes: ScheduleChange[] = [];
+    for (const result of refreshed) {
+      if (!result) continue;
+      if (result.changes.length > 0) {
+        await addPendingScheduleChanges(result.storageKey, source.key, result.changes);
+        changes.push(...result.changes);
+      }
+      await saveTimetableToCache(result.storageKey, result.fetched, source.key);
+    }
+
+    const { updated, removedIds, affected } = planAlarmUpdates(await getAllAlarmsFromDB(), changes, now);
+    await writeAlarmsToDB(updated, removedIds);
+    return affected;
+  } catch (error) {
+    console.warn('Background timetable refresh failed:', error);
+    return [];
+  } finally {
+    clearTimeout(timeout);
+  }
+};
+
+// Periodic Background Sync isn't in the DOM typings yet
+interface PeriodicSyncRegistration extends ServiceWorkerRegistration {
+  periodicSync?: { register: (tag: string, options: { minInterval: number }) => Promise<void> };
+}
+
+/**
+ * Ask the browser to wake the service worker for background refreshes. Only supported
+ * for installed apps in some browsers; elsewhere the worker refreshes during its alarm checks.
+ */
+export const registerPeriodicRefresh = async (registration: ServiceWorkerRegistration): Promise<void> => {
+  const { periodicSync } = registration as PeriodicSyncRegistration;
+  if (!periodicSync) return;
+  try {
+    const status = await navigator.permissions.query({ name: 'periodic-background-sync' as PermissionName });
+    if (status.state !== 'granted') return;
+    await periodicSync.register(PERIODIC_SYNC_TAG, { minInterval: BACKGROUND_REFRESH_INTERVAL_MS });
+  } catch (error) {
+    console.warn('Periodic background sync unavailable:', error);
+  }
+};
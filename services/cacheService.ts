@@ -0,0 +1,123 @@
+// Timetable cache so the schedule can render instantly and keep working offline
+
+import { DaySchedule, Section, TimeSlot } from '../types';
+import { addMinutesToTime } from './timeService';
+import { DEFAULT_SOURCE_CONFIG, createTimetableSource } from './sourceService';
+import { DEFAULT_BATCH, getSectionTemplate } from './programmeService';
+
+export interface CachedTimetable {
+  section: Section; // Section storage key: bare for the default batch, else prefixed with the batch id
+  sourceKey: string; // TimetableSource.key the copy was fetched from
+  data: DaySchedule[];
+  syncedAt: Date; // When this copy was last fetched from the sheet
+}
+
+// IndexedDB database name and version
+const DB_NAME = 'TimetableCache';
+const DB_VERSION = 1;
+const STORE_NAME = 'timetables';
+
+// Initialize IndexedDB
+const initDB = (): Promise<IDBDatabase> => {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+    request.onerror = () => reject(request.error);
+    request.onsuccess = () => resolve(request.result);
+
+    request.onupgradeneeded = (event) => {
+      const db = (event.target as IDBOpenDBRequest).result;
+      if (!db.objectStoreNames.contains(STORE_NAME)) {
+        db.createObjectStore(STORE_NAME, { keyPath: 'section' });
+      }
+    };
+  });
+};
+
+/**
+ * Upgrade slots cached before they carried start/end times ({ time, subject }).
+ * Those were all cached from the default batch.
+ */
+const migrateSlot = (slot: any, index: number, section: Section): TimeSlot => {
+  if (slot.startTime) return slot;
+  const template = getSectionTemplate(DEFAULT_BATCH.batch, section);
+  const templateIndex = template.slotTimes.indexOf(slot.time);
+  return {
+    startTime: slot.time,
+    endTime: addMinutesToTime(slot.time, template.classDurationMinutes),
+    slotIndex: templateIndex === -1 ? index : templateIndex,
+    subject: slot.subject,
+  };
+};
+
+/**
+ * Save a freshly fetched timetable for a section
+ */
+export const saveTimetableToCache = async (section: Section, data: DaySchedule[], sourceKey: string): Promise<Date> => {
+  const syncedAt = new Date();
+
+  try {
+    const db = await initDB();
+    const transaction = db.transaction([STORE_NAME], 'readwrite');
+    const store = transaction.objectStore(STORE_NAME);
+
+    // Store with serializable dates
+    const cacheData = {
+      section,
+      sourceKey,
+      syncedAt: syncedAt.toISOString(),
+      data: data.map((day) => ({
+        ...day,
+        dateObj: day.dateObj.toISOString(),
+      })),
+    };
+
+    await new Promise<void>((resolve, reject) => {
+      const request = store.put(cacheData);
+      request.onsuccess = () => resolve();
+      request.onerror = () => reject(request.error);
+    });
+  } catch (error) {
+    console.error('Failed to save timetable to IndexedDB:', error);
+  }
+
+  return syncedAt;
+};
+
+/**
+ * Get the cached timetable for a section, or null if it has never been synced from this source
+ */
+export const getCachedTimetable = async (section: Section, sourceKey: string): Promise<CachedTimetable | null> => {
+  try {
+    const db = await initDB();
+    const transaction = db.transaction([STORE_NAME], 'readonly');
+    const store = transaction.objectStore(STORE_NAME);
+
+    return new Promise((resolve, reject) => {
+      const request = store.get(section);
+      request.onsuccess = () => {
+        const cached = request.result;
+        // Copies cached before sources were configurable came from the default sheet
+        const cachedSourceKey = cached?.sourceKey ?? createTimetableSource(DEFAULT_SOURCE_CONFIG).key;
+        if (!cached || cachedSourceKey !== sourceKey) {
+          resolve(null);
+          return;
+        }
+        resolve({
+          section: cached.section,
+          sourceKey: cachedSourceKey,
+          syncedAt: new Date(cached.syncedAt),
+          data: cached.data.map((day: any) => ({
+            ...day,
+            dateObj: new Date(day.dateObj),
+            slots: day.slots.map((slot: any, index: number) => migrateSlot(slot, index, cached.section)),
+          })),
+        });
+      };
+      request.onerror = () => reject(request.error);
+    });
+  } catch (error) {
+    console.error('Failed to read timetable from IndexedDB:', error);
+    return null;
+  }
+};
@@ -0,0 +1,234 @@
+// Export a section's timetable as an iCalendar (RFC 5545) file
+
+import { DaySchedule, Section, TimeSlot } from '../types';
+import {
+  DEFAULT_REMINDER_SETTINGS,
+  ReminderSettings,
+  formatReminderBody,
+  generateAlarmId,
+  getReminderOffsets,
+  parseTimeString
+} from './alarmService';
+import { getClassIdSubject } from './subjectService';
+
+// A class as written to an export, remembered so the next export can cancel it if it's gone
+export interface ExportedEvent {
+  uid: string;
+  start: string; // ISO time
+  end: string;   // ISO time
+  summary: string;
+}
+
+export interface CalendarExportOptions {
+  includeAlarms: boolean;
+  reminderSettings?: ReminderSettings;
+  previousEvents?: ExportedEvent[]; // From the last export; those no longer in the timetable are cancelled
+}
+
+const PRODUCT_ID = '-//Class Timetable//Timetable Export//EN';
+const UID_DOMAIN = 'timetable.app';
+const EXPORTED_EVENTS_KEY_PREFIX = 'timetable_calendar_export_';
+
+/**
+ * Format a date as an iCalendar UTC timestamp (20251007T034500Z)
+ */
+const formatICalDate = (date: Date): string => {
+  return date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+};
+
+/**
+ * Escape TEXT values (RFC 5545 section 3.3.11)
+ */
+const escapeICalText = (text: string): string => {
+  return text
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n');
+};
+
+/**
+ * Fold content lines longer than 75 octets (RFC 5545 section 3.1)
+ */
+const foldLine = (line: string): string => {
+  const encoder = new TextEncoder();
+  if (encoder.encode(line).length <= 75) {
+    return line;
+  }
+
+  const parts: string[] = [];
+  let current = '';
+  let currentBytes = 0;
+  // Continuation lines start with a space, which counts towards their 75 octets
+  let limit = 75;
+
+  for (const char of line) {
+    const charBytes = encoder.encode(char).length;
+    if (currentBytes + charBytes > limit) {
+      parts.push(current);
+      current = '';
+      currentBytes = 0;
+      limit = 74;
+    }
+    current += char;
+    currentBytes += charBytes;
+  }
+  parts.push(current);
+
+  return parts.join('\r\n ');
+};
+
+/**
+ * Build the calendar UID for a class, from the same date, time and subject as its alarm ID
+ */
+export const generateEventUid = (date: Date, time: string, subject: string): string => {
+  return `${generateAlarmId(date, time, subject)}@${UID_DOMAIN}`;
+};
+
+const toExportedEvent = (date: Date, slot: TimeSlot): ExportedEvent => {
+  const start = parseTimeString(slot.startTime, date);
+  let end = parseTimeString(slot.endTime, date);
+  // Classes running past midnight end on the next day
+  if (end <= start) end = new Date(end.getTime() + 24 * 60 * 60000);
+
+  return {
+    uid: generateEventUid(date, slot.startTime, getClassIdSubject(slot)),
+    start: start.toISOString(),
+    end: end.toISOString(),
+    summary: slot.subject,
+  };
+};
+
+/**
+ * Every class in a timetable as it is written to an export
+ */
+export const getExportedEvents = (schedule: DaySchedule[]): ExportedEvent[] => {
+  return schedule.flatMap((day) => day.slots.map((slot) => toExportedEvent(day.dateObj, slot)));
+};
+
+/**
+ * Events from previous exports that the timetable no longer has. A moved class gets a new UID,
+ * so its old event is exported as cancelled to take it out of the calendar
+ */
+const getCancelledEvents = (previousEvents: ExportedEvent[], events: ExportedEvent[]): ExportedEvent[] => {
+  const uids = new Set(events.map((event) => event.uid));
+  return previousEvents.filter((event) => !uids.has(event.uid));
+};
+
+/**
+ * Turn a section's timetable into an iCalendar document
+ */
+export const buildICalendar = (
+  section: Section,
+  schedule: DaySchedule[],
+  options: CalendarExportOptions,
+  generatedAt: Date = new Date()
+): string => {
+  const reminderSettings = options.reminderSettings ?? DEFAULT_REMINDER_SETTINGS;
+  const dtStamp = formatICalDate(generatedAt);
+  // Newer exports must win when a calendar app compares revisions of the same UID
+  const sequence = Math.floor(generatedAt.getTime() / 60000);
+
+  const lines: string[] = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    `PRODID:${PRODUCT_ID}`,
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    `X-WR-CALNAME:${escapeICalText(`Section ${section} Timetable`)}`,
+  ];
+
+  schedule.forEach((day) => {
+    day.slots.forEach((slot) => {
+      const event = toExportedEvent(day.dateObj, slot);
+
+      lines.push(
+        'BEGIN:VEVENT',
+        `UID:${escapeICalText(event.uid)}`,
+        `DTSTAMP:${dtStamp}`,
+        `SEQUENCE:${sequence}`,
+        `DTSTART:${formatICalDate(new Date(event.start))}`,
+        `DTEND:${formatICalDate(new Date(event.end))}`,
+        `SUMMARY:${escapeICalText(slot.subject)}`,
+        `DESCRIPTION:${escapeICalText([`Section ${slot.section ?? section}`, slot.faculty, slot.notes].filter(Boolean).join('\n'))}`
+      );
+      if (slot.room) {
+        lines.push(`LOCATION:${escapeICalText(slot.room)}`);
+      }
+
+      if (options.includeAlarms) {
+        getReminderOffsets(slot.subject, reminderSettings).forEach((leadMinutes) => {
+          lines.push(
+            'BEGIN:VALARM',
+            'ACTION:DISPLAY',
+            `DESCRIPTION:${escapeICalText(formatReminderBody(slot.subject, slot.startTime, leadMinutes))}`,
+            `TRIGGER:-PT${leadMinutes}M`,
+            'END:VALARM'
+          );
+        });
+      }
+
+      lines.push('END:VEVENT');
+    });
+  });
+
+  getCancelledEvents(options.previousEvents ?? [], getExportedEvents(schedule)).forEach((event) => {
+    lines.push(
+      'BEGIN:VEVENT',
+      `UID:${escapeICalText(event.uid)}`,
+      `DTSTAMP:${dtStamp}`,
+      `SEQUENCE:${sequence}`,
+      'STATUS:CANCELLED',
+      `DTSTART:${formatICalDate(new Date(event.start))}`,
+      `DTEND:${formatICalDate(new Date(event.end))}`,
+      `SUMMARY:${escapeICalText(event.summary)}`,
+      'END:VEVENT'
+    );
+  });
+
+  lines.push('END:VCALENDAR');
+
+  return lines.map(foldLine).join('\r\n') + '\r\n';
+};
+
+const getLastExportedEvents = (exportKey: string): ExportedEvent[] => {
+  try {
+    const saved = localStorage.getItem(`${EXPORTED_EVENTS_KEY_PREFIX}${exportKey}`);
+    return saved ? JSON.parse(saved) : [];
+  } catch {
+    return [];
+  }
+};
+
+/**
+ * Build the .ics file and hand it to the browser as a download. `exportKey` names the
+ * timetable, so classes dropped since its last export are cancelled in this one.
+ */
+export const downloadICalendar = (
+  section: Section,
+  schedule: DaySchedule[],
+  options: CalendarExportOptions,
+  exportKey: string = section
+): void => {
+  const now = new Date();
+  const previousEvents = getLastExportedEvents(exportKey);
+  const content = buildICalendar(section, schedule, { ...options, previousEvents }, now);
+
+  // Keep upcoming cancellations too, in case this export is never imported
+  const events = getExportedEvents(schedule);
+  const stillCancelled = getCancelledEvents(previousEvents, events).filter((event) => new Date(event.end) > now);
+  localStorage.setItem(`${EXPORTED_EVENTS_KEY_PREFIX}${exportKey}`, JSON.stringify([...events, ...stillCancelled]));
+
+  const blob = new Blob([content], { type: 'text/calendar;charset=utf-8' });
+  const url = URL.createObjectURL(blob);
+
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `timetable-section-${section}.ics`;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+
+  // Give the browser a moment to start the download before releasing the blob
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
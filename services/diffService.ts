@@ -0,0 +1,116 @@
+// Detect what changed between two copies of a section's timetable
+
+import { DaySchedule, ScheduleChange } from '../types';
+import { getClassIdSubject } from './subjectService';
+
+interface FlatSlot {
+  key: string;
+  date: Date;
+  time: string;
+  subject: string;
+  cellSubject?: string;
+}
+
+// Flatten days into individual slots keyed by date, time and the subject their class ID uses
+const flattenSchedule = (schedule: DaySchedule[]): FlatSlot[] => {
+  const slots: FlatSlot[] = [];
+  schedule.forEach((day) => {
+    day.slots.forEach((slot) => {
+      slots.push({
+        key: `${day.dateObj.toDateString()}|${slot.startTime}|${getClassIdSubject(slot)}`,
+        date: day.dateObj,
+        time: slot.startTime,
+        subject: slot.subject,
+        cellSubject: slot.cellSubject,
+      });
+    });
+  });
+  return slots;
+};
+
+const compareSlots = (a: { date: Date; time: string }, b: { date: Date; time: string }): number => {
+  return a.date.getTime() - b.date.getTime() || a.time.localeCompare(b.time);
+};
+
+const subjectOf = ({ subject, cellSubject }: FlatSlot): Pick<ScheduleChange, 'subject' | 'cellSubject'> => {
+  return cellSubject ? { subject, cellSubject } : { subject };
+};
+
+// Group by the subject class IDs use, so a narrowed combined cell pairs with its old slot
+const groupBySubject = (slots: FlatSlot[]): Map<string, FlatSlot[]> => {
+  const groups = new Map<string, FlatSlot[]>();
+  slots.forEach((slot) => {
+    const subject = getClassIdSubject(slot);
+    const group = groups.get(subject) || [];
+    group.push(slot);
+    groups.set(subject, group);
+  });
+  return groups;
+};
+
+/**
+ * Compare the previous and newly fetched timetable for a section.
+ * A slot that disappears and reappears elsewhere with the same subject is reported
+ * as rescheduled; everything else is reported as added or removed.
+ */
+export const diffTimetables = (previous: DaySchedule[], next: DaySchedule[]): ScheduleChange[] => {
+  const previousSlots = flattenSchedule(previous);
+  const nextSlots = flattenSchedule(next);
+
+  const previousKeys = new Set(previousSlots.map((slot) => slot.key));
+  const nextKeys = new Set(nextSlots.map((slot) => slot.key));
+
+  const removed = previousSlots.filter((slot) => !nextKeys.has(slot.key)).sort(compareSlots);
+  const added = nextSlots.filter((slot) => !previousKeys.has(slot.key)).sort(compareSlots);
+
+  const changes: ScheduleChange[] = [];
+  const addedBySubject = groupBySubject(added);
+
+  // Pair removed slots with added slots of the same subject, in chronological order
+  groupBySubject(removed).forEach((removedSlots, idSubject) => {
+    const addedSlots = addedBySubject.get(idSubject) || [];
+
+    removedSlots.forEach((oldSlot, index) => {
+      const newSlot = addedSlots[index];
+      if (newSlot) {
+        changes.push({
+          type: 'rescheduled',
+          ...subjectOf(newSlot),
+          date: newSlot.date,
+          time: newSlot.time,
+          previousDate: oldSlot.date,
+          previousTime: oldSlot.time,
+        });
+      } else {
+        changes.push({ type: 'removed', ...subjectOf(oldSlot), date: oldSlot.date, time: oldSlot.time });
+      }
+    });
+
+    addedBySubject.set(idSubject, addedSlots.slice(removedSlots.length));
+  });
+
+  addedBySubject.forEach((addedSlots) => {
+    addedSlots.forEach((slot) => {
+      changes.push({ type: 'added', ...subjectOf(slot), date: slot.date, time: slot.time });
+    });
+  });
+
+  return changes.sort(compareSlots);
+};
+
+/**
+ * One-line description of a change, used for the changes panel and notifications
+ */
+export const describeScheduleChange = (change: ScheduleChange): string => {
+  const formatDate = (date: Date) =>
+    date.toLocaleDateString('en-US', { weekday: 'short', month: 'short', day: 'numeric' });
+
+  switch (change.type) {
+    case 'added':
+      return `${change.subject} added on ${formatDate(change.date)} at ${change.time}`;
+    case 'removed':
+      return `${change.subject} on ${formatDate(change.date)} at ${change.time} was removed`;
+    case 'rescheduled':
+      return `${change.subject} moved from ${formatDate(change.previousDate!)} ${change.previousTime} to ${formatDate(change.date)} ${change.time}`;
+  }
+};
@@ -0,0 +1,134 @@
+// Typed timetable load failures, automatic retries, and the messages shown for them
+
+import { FETCH_RETRY_ATTEMPTS, FETCH_RETRY_BASE_DELAY_MS } from '../constants';
+
+export type TimetableErrorKind =
+  | 'offline'       // The device has no connection
+  | 'network'       // The request failed, timed out or was cut off
+  | 'not-shared'    // The sheet is private, unpublished or doesn't exist
+  | 'tab-not-found' // The spreadsheet has no tab with the configured name
+  | 'sheet-error'   // gviz answered with status: 'error'
+  | 'layout';       // Rows arrived but aren't in a recognizable timetable layout
+
+export class TimetableError extends Error {
+  readonly kind: TimetableErrorKind;
+  readonly transient: boolean; // Worth retrying without the user changing anything
+
+  constructor(kind: TimetableErrorKind, message: string, transient = kind === 'network') {
+    super(message);
+    this.name = 'TimetableError';
+    this.kind = kind;
+    this.transient = transient;
+  }
+}
+
+export const isAbortError = (error: unknown): boolean => {
+  return error instanceof DOMException && error.name === 'AbortError';
+};
+
+/**
+ * Classify a failure that wasn't raised as a TimetableError. fetch rejects with a TypeError
+ * when the request never completes, and a cut-off response fails to parse with a SyntaxError.
+ */
+export const toTimetableError = (error: unknown): unknown => {
+  if (error instanceof TimetableError || isAbortError(error)) return error;
+  if (typeof navigator !== 'undefined' && !navigator.onLine) {
+    return new TimetableError('offline', "You're offline");
+  }
+  if (error instanceof TypeError) {
+    return new TimetableError('network', `Couldn't reach the timetable: ${error.message}`);
+  }
+  if (error instanceof SyntaxError) {
+    return new TimetableError('network', `The timetable response was incomplete: ${error.message}`);
+  }
+  return error;
+};
+
+/**
+ * Whether the failure is down to the connection rather than the sheet or its setup
+ */
+export const isConnectionError = (error: unknown): boolean => {
+  return error instanceof TimetableError && (error.kind === 'offline' || error.kind === 'network');
+};
+
+/**
+ * Map an HTTP status from the timetable source to the matching error
+ */
+export const httpStatusError = (status: number, url: string): TimetableError => {
+  if (status === 401 || status === 403 || status === 404) {
+    return new TimetableError('not-shared', `Request for ${url} was refused (status ${status})`);
+  }
+  return new TimetableError('network', `Request for ${url} failed with status ${status}`, status === 408 || status === 429 || status >= 500);
+};
+
+const wait = (ms: number, signal?: AbortSignal): Promise<void> => {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(signal.reason);
+      return;
+    }
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal!.reason);
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+};
+
+/**
+ * Run a request, retrying transient failures with exponential backoff (1s, 2s, 4s…).
+ * Anything else, and the last failure, is thrown classified as a TimetableError where possible.
+ */
+export const retryWithBackoff = async <T>(
+  request: () => Promise<T>,
+  signal?: AbortSignal,
+  attempts: number = FETCH_RETRY_ATTEMPTS,
+  baseDelayMs: number = FETCH_RETRY_BASE_DELAY_MS
+): Promise<T> => {
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await request();
+    } catch (err) {
+      if (signal?.aborted) throw signal.reason;
+      const error = toTimetableError(err);
+      const canRetry = error instanceof TimetableError && error.transient && attempt < attempts;
+      if (!canRetry) throw error;
+      const delay = baseDelayMs * 2 ** (attempt - 1);
+      console.warn(`Timetable request failed (attempt ${attempt} of ${attempts}); retrying in ${delay}ms:`, error.message);
+      await wait(delay, signal);
+    }
+  }
+};
+
+// What went wrong and what the student can do about it
+export interface ErrorDescription {
+  title: string;
+  message: string;
+}
+
+export const describeTimetableError = (error: unknown): ErrorDescription => {
+  if (!(error instanceof TimetableError)) {
+    return {
+      title: 'Sync Error',
+      message: error instanceof Error && error.message ? error.message : 'Failed to load schedule',
+    };
+  }
+  switch (error.kind) {
+    case 'offline':
+      return { title: "You're offline", message: 'Connect to the internet and retry. Timetables you have opened before stay available offline.' };
+    case 'network':
+      return { title: "Couldn't reach the timetable", message: `${error.message}. Check your connection and retry.` };
+    case 'not-shared':
+      return { title: "Sheet isn't shared", message: 'Ask the sheet owner to share it with "Anyone with the link", or publish it to the web, then retry.' };
+    case 'tab-not-found':
+      return { title: 'Tab not found', message: `${error.message}. Check the tab name in Timetable source on the home screen.` };
+    case 'sheet-error':
+      return { title: 'Google Sheets returned an error', message: error.message };
+    case 'layout':
+      return { title: 'Unrecognized timetable layout', message: `${error.message} Let the app maintainer know if this keeps happening.` };
+  }
+};
@@ -0,0 +1,58 @@
+// Combine several sections' timetables into one schedule
+
+import { DaySchedule, Section, TimeSlot } from '../types';
+import { timeToMinutes } from './timeService';
+
+/**
+ * Merge per-section timetables day by day. Every slot is tagged with its section;
+ * the same class listed by two sections at the same time is kept once.
+ */
+export const mergeSectionTimetables = (timetables: { section: Section; data: DaySchedule[] }[]): DaySchedule[] => {
+  const days = new Map<string, DaySchedule>();
+
+  timetables.forEach(({ section, data }) => {
+    data.forEach((day) => {
+      const key = day.dateObj.toDateString();
+      const merged = days.get(key) ?? { ...day, slots: [] };
+      day.slots.forEach((slot) => {
+        const duplicate = merged.slots.some((s) => s.startTime === slot.startTime && s.subject === slot.subject);
+        if (!duplicate) {
+          merged.slots.push({ ...slot, section });
+        }
+      });
+      days.set(key, merged);
+    });
+  });
+
+  return Array.from(days.values())
+    .map((day) => ({
+      ...day,
+      slots: day.slots.sort((a, b) => a.startTime.localeCompare(b.startTime) || (a.section ?? '').localeCompare(b.section ?? '')),
+    }))
+    .sort((a, b) => a.dateObj.getTime() - b.dateObj.getTime());
+};
+
+const slotRange = (slot: TimeSlot): [number, number] => {
+  const start = timeToMinutes(slot.startTime);
+  const end = timeToMinutes(slot.endTime);
+  return [start, end > start ? end : end + 24 * 60];
+};
+
+/**
+ * Indexes of slots in a day that overlap another slot, e.g. a 09:15 Section A class
+ * against a 09:00-10:30 Section B one
+ */
+export const findClashingSlots = (slots: TimeSlot[]): Set<number> => {
+  const clashing = new Set<number>();
+  slots.forEach((a, i) => {
+    const [aStart, aEnd] = slotRange(a);
+    slots.slice(i + 1).forEach((b, offset) => {
+      const [bStart, bEnd] = slotRange(b);
+      if (aStart < bEnd && bStart < aEnd) {
+        clashing.add(i);
+        clashing.add(i + 1 + offset);
+      }
+    });
+  });
+  return clashing;
+};
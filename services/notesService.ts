@@ -0,0 +1,156 @@
+// Notes and to-dos attached to a single class, stored locally
+
+import { ScheduleChange } from '../types';
+import { generateAlarmId, getPreviousAlarmId } from './alarmService';
+import { getClassIdSubject } from './subjectService';
+
+export interface ClassTask {
+  text: string;
+  done: boolean;
+}
+
+export interface ClassNote {
+  id: string; // Class ID from generateAlarmId
+  subject: string;
+  date: Date;
+  time: string;
+  text: string;
+  tasks: ClassTask[];
+  updatedAt: Date;
+}
+
+export type ClassNoteContent = Pick<ClassNote, 'text' | 'tasks'>;
+
+// IndexedDB database name and version (also read by the service worker)
+const DB_NAME = 'TimetableNotes';
+const DB_VERSION = 1;
+const STORE_NAME = 'notes';
+
+// Initialize IndexedDB
+const initDB = (): Promise<IDBDatabase> => {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+    request.onerror = () => reject(request.error);
+    request.onsuccess = () => resolve(request.result);
+
+    request.onupgradeneeded = (event) => {
+      const db = (event.target as IDBOpenDBRequest).result;
+      if (!db.objectStoreNames.contains(STORE_NAME)) {
+        db.createObjectStore(STORE_NAME, { keyPath: 'id' });
+      }
+    };
+  });
+};
+
+export const isNoteEmpty = (content: ClassNoteContent): boolean => {
+  return content.text.trim() === '' && content.tasks.length === 0;
+};
+
+/**
+ * Every class note, keyed by class ID
+ */
+export const getAllNotes = async (): Promise<Map<string, ClassNote>> => {
+  const db = await initDB();
+  const transaction = db.transaction([STORE_NAME], 'readonly');
+  const store = transaction.objectStore(STORE_NAME);
+
+  return new Promise((resolve, reject) => {
+    const request = store.getAll();
+    request.onsuccess = () => {
+      const notes = new Map<string, ClassNote>();
+      request.result.forEach((note: any) => {
+        notes.set(note.id, {
+          ...note,
+          date: new Date(note.date),
+          updatedAt: new Date(note.updatedAt),
+        });
+      });
+      resolve(notes);
+    };
+    request.onerror = () => reject(request.error);
+  });
+};
+
+/**
+ * The note for one class, or null if it has none
+ */
+export const getNote = async (classId: string): Promise<ClassNote | null> => {
+  const db = await initDB();
+  const store = db.transaction([STORE_NAME], 'readonly').objectStore(STORE_NAME);
+
+  return new Promise((resolve, reject) => {
+    const request = store.get(classId);
+    request.onsuccess = () => {
+      const note = request.result;
+      resolve(note ? { ...note, date: new Date(note.date), updatedAt: new Date(note.updatedAt) } : null);
+    };
+    request.onerror = () => reject(request.error);
+  });
+};
+
+/**
+ * Save a class's note; an empty note is deleted.
+ * Pass the slot's cellSubject when subject shows only part of a combined cell.
+ */
+export const saveNote = async (
+  date: Date,
+  time: string,
+  subject: string,
+  content: ClassNoteContent,
+  cellSubject?: string
+): Promise<ClassNote | null> => {
+  const id = generateAlarmId(date, time, getClassIdSubject({ subject, cellSubject }));
+  const db = await initDB();
+  const transaction = db.transaction([STORE_NAME], 'readwrite');
+  const store = transaction.objectStore(STORE_NAME);
+
+  if (isNoteEmpty(content)) {
+    await new Promise<void>((resolve, reject) => {
+      const request = store.delete(id);
+      request.onsuccess = () => resolve();
+      request.onerror = () => reject(request.error);
+    });
+    return null;
+  }
+
+  const note: ClassNote = { id, subject, date, time, text: content.text, tasks: content.tasks, updatedAt: new Date() };
+  await new Promise<void>((resolve, reject) => {
+    const request = store.put({ ...note, date: date.toISOString(), updatedAt: note.updatedAt.toISOString() });
+    request.onsuccess = () => resolve();
+    request.onerror = () => reject(request.error);
+  });
+  return note;
+};
+
+/**
+ * Move notes on rescheduled classes to their new slot. Notes on removed classes are
+ * kept so nothing the student wrote disappears with a sheet edit.
+ */
+export const remapNotes = async (changes: ScheduleChange[]): Promise<void> => {
+  const rescheduled = changes.filter((change) => change.type === 'rescheduled');
+  if (rescheduled.length === 0) return;
+
+  const notes = await getAllNotes();
+  for (const change of rescheduled) {
+    const previous = notes.get(getPreviousAlarmId(change));
+    if (!previous) continue;
+
+    await saveNote(previous.date, previous.time, previous.subject, { text: '', tasks: [] }, getClassIdSubject(change));
+    await saveNote(change.date, change.time, change.subject, previous, change.cellSubject);
+  }
+};
+
+/**
+ * Dates (toDateString) that have at least one note, for the day chips
+ */
+export const getNoteDates = (notes: Map<string, ClassNote>): Set<string> => {
+  return new Set(Array.from(notes.values(), (note) => note.date.toDateString()));
+};
+
+/**
+ * All of a note's text, lower-cased for search
+ */
+export const getNoteSearchText = (note: ClassNote): string => {
+  return [note.text, ...note.tasks.map((task) => task.text)].join('\n').toLowerCase();
+};
@@ -0,0 +1,83 @@
+// Programmes, batches and their sections, from PROGRAMMES or discovered from the sheet
+
+import { PROGRAMMES } from '../constants';
+import { BatchConfig, ProgrammeConfig, Section, SelectedBatch } from '../types';
+
+// A section's template layout with the batch defaults filled in
+export interface SectionTemplate {
+  slotTimes: string[];
+  classDurationMinutes: number;
+  startColumn?: number;
+}
+
+const SELECTED_BATCH_KEY = 'timetable_selected_batch';
+
+// The first configured batch; data stored before batches existed belongs to it
+export const DEFAULT_BATCH: SelectedBatch = { programme: PROGRAMMES[0], batch: PROGRAMMES[0].batches[0] };
+
+// Section letters as the sheet labels them ("Section A")
+const SECTION_ID_PATTERN = /^[A-Z]$/;
+
+export const getBatchId = ({ programme, batch }: SelectedBatch): string => `${programme.id}/${batch.id}`;
+
+export const findBatch = (
+  batchId: string,
+  programmes: ProgrammeConfig[] = PROGRAMMES
+): SelectedBatch | null => {
+  for (const programme of programmes) {
+    for (const batch of programme.batches) {
+      if (getBatchId({ programme, batch }) === batchId) {
+        return { programme, batch };
+      }
+    }
+  }
+  return null;
+};
+
+/**
+ * The batch picked last time, or null if none has been picked (or it was removed from config)
+ */
+export const getSavedBatch = (): SelectedBatch | null => {
+  const saved = localStorage.getItem(SELECTED_BATCH_KEY);
+  return saved ? findBatch(saved) : null;
+};
+
+export const getAllBatches = (programmes: ProgrammeConfig[] = PROGRAMMES): SelectedBatch[] => {
+  return programmes.flatMap((programme) => programme.batches.map((batch) => ({ programme, batch })));
+};
+
+export const saveSelectedBatch = (selected: SelectedBatch): void => {
+  localStorage.setItem(SELECTED_BATCH_KEY, getBatchId(selected));
+};
+
+/**
+ * Template layout for a section, with the batch's defaults filled in
+ */
+export const getSectionTemplate = (batch: BatchConfig, section: Section): SectionTemplate => {
+  const configured = batch.sections?.find((s) => s.id === section);
+  return {
+    startColumn: configured?.startColumn,
+    slotTimes: configured?.slotTimes ?? batch.slotTimes,
+    classDurationMinutes: configured?.classDurationMinutes ?? batch.classDurationMinutes,
+  };
+};
+
+/**
+ * Whether a stored section can still be opened: one of the configured sections, or any
+ * section letter for batches whose sections are discovered from the sheet
+ */
+export const isKnownSection = (batch: BatchConfig, section: unknown): section is Section => {
+  if (typeof section !== 'string') return false;
+  return batch.sections ? batch.sections.some((s) => s.id === section) : SECTION_ID_PATTERN.test(section);
+};
+
+/**
+ * Prefix for locally stored per-section data (cache, subject choices). The default
+ * batch keeps the bare section so data saved before batches existed still applies.
+ */
+export const getSectionStorageKey = (selected: SelectedBatch, section: Section): string => {
+  if (selected.programme === DEFAULT_BATCH.programme && selected.batch === DEFAULT_BATCH.batch) {
+    return section;
+  }
+  return `${getBatchId(selected)}:${section}`;
+};
@@ -0,0 +1,63 @@
+// Search classes across the whole timetable
+
+import { DaySchedule, TimeSlot } from '../types';
+import { generateAlarmId } from './alarmService';
+import { ClassNote, getNoteSearchText } from './notesService';
+import { getClassIdSubject, isAssessmentSubject } from './subjectService';
+import { addDays, getWeekStart } from './termService';
+import { getClassTiming } from './timeService';
+
+export interface SearchFilters {
+  examsOnly: boolean;
+  upcomingOnly: boolean;
+  thisWeek: boolean;
+}
+
+export const EMPTY_SEARCH_FILTERS: SearchFilters = {
+  examsOnly: false,
+  upcomingOnly: false,
+  thisWeek: false,
+};
+
+export interface SearchResult {
+  day: DaySchedule;
+  slot: TimeSlot;
+  note?: ClassNote;
+}
+
+export const hasActiveSearch = (query: string, filters: SearchFilters): boolean => {
+  return query.trim() !== '' || filters.examsOnly || filters.upcomingOnly || filters.thisWeek;
+};
+
+/**
+ * Find classes whose subject and notes together contain every word of the query, oldest first
+ */
+export const searchSchedule = (
+  schedule: DaySchedule[],
+  query: string,
+  filters: SearchFilters,
+  now: Date = new Date(),
+  notes: Map<string, ClassNote> = new Map()
+): SearchResult[] => {
+  const words = query.toLowerCase().split(/\s+/).filter(Boolean);
+  const weekStart = getWeekStart(now);
+  const weekEnd = addDays(weekStart, 7);
+
+  const results: SearchResult[] = [];
+  schedule.forEach((day) => {
+    if (filters.thisWeek && (day.dateObj < weekStart || day.dateObj >= weekEnd)) return;
+
+    day.slots.forEach((slot) => {
+      const note = notes.get(generateAlarmId(day.dateObj, slot.startTime, getClassIdSubject(slot)));
+      const text = note ? `${slot.subject.toLowerCase()}\n${getNoteSearchText(note)}` : slot.subject.toLowerCase();
+      if (!words.every((word) => text.includes(word))) return;
+      if (filters.examsOnly && !isAssessmentSubject(slot.subject)) return;
+      if (filters.upcomingOnly && getClassTiming(day.dateObj, slot.startTime, slot.endTime, now).status === 'past') return;
+      results.push({ day, slot, note });
+    });
+  });
+
+  return results.sort((a, b) =>
+    a.day.dateObj.getTime() - b.day.dateObj.getTime() || a.slot.startTime.localeCompare(b.slot.startTime)
+  );
+};
@@ -1,171 +1,465 @@
 
-import { SPREADSHEET_ID, SHEET_TAB_NAME, getSectionSlots, SECTION_COLUMN_MAP } from '../constants';
-import { DaySchedule, Section, TimeSlot } from '../types';
-
-const parseSheetDate = (dateStr: string): Date | null => {
-  if (!dateStr) return null;
-  const cleanStr = dateStr.replace(/(\r\n|\n|\r)/gm, "").trim();
-  
-  // Heuristic for academic year crossover (Oct 2025 - Mar 2026)
-  // If the string starts with Jan/Feb/Mar/Apr, assume 2026, otherwise 2025.
-  // Standard format assumed: "Oct 7" or "October 7"
-  let year = 2025;
-  const lowerStr = cleanStr.toLowerCase();
-  if (lowerStr.startsWith('jan') || lowerStr.startsWith('feb') || lowerStr.startsWith('mar') || lowerStr.startsWith('apr')) {
-    year = 2026;
-  }
-
-  // Try parsing the date
-  let date = new Date(`${cleanStr} ${year}`);
-  
-  // If that fails, try alternative formats
-  if (isNaN(date.getTime())) {
-    // Try with full month name
-    const monthMap: Record<string, string> = {
-      'jan': 'January', 'feb': 'February', 'mar': 'March', 'apr': 'April',
-      'may': 'May', 'jun': 'June', 'jul': 'July', 'aug': 'August',
-      'sep': 'September', 'oct': 'October', 'nov': 'November', 'dec': 'December'
-    };
-    
-    for (const [abbr, full] of Object.entries(monthMap)) {
-      if (lowerStr.startsWith(abbr)) {
-        const dayMatch = cleanStr.match(/\d+/);
-        if (dayMatch) {
-          date = new Date(`${full} ${dayMatch[0]}, ${year}`);
-          if (!isNaN(date.getTime())) break;
-        }
+import { AcademicTerm, BatchConfig, DaySchedule, Section, SectionColumnLayout, SlotDetailField, SlotDetails, TimeSlot, TimetableSource } from '../types';
+import { DEFAULT_BATCH, getSectionTemplate } from './programmeService';
+import { getAcademicTerm, parseSheetDate } from './termService';
+import { addMinutesToTime, extractTimeOverride, parseTimeRange } from './timeService';
+import { TimetableError, retryWithBackoff } from './errorService';
+
+const GVIZ_CALLBACK = 'setResponse(';
+const HTML_PAGE_PATTERN = /^\s*<(!doctype|html)/i;
+
+/**
+ * Unwrap a gviz JSONP response and flatten its table into rows of display strings
+ */
+export const parseGvizResponse = (text: string): string[][] => {
+  // Parse JSONP response
+  // Response usually starts with: /*O_o*/ google.visualization.Query.setResponse(
+  // and ends with: );
+  // Private sheets answer with a Google sign-in page instead, whose inline CSS and
+  // scripts are full of braces, so recognise the page before looking for the JSON
+  if (HTML_PAGE_PATTERN.test(text)) {
+    throw new TimetableError('not-shared', "Invalid sheet response format: got a web page instead of sheet data");
+  }
+
+  // Anything else without the data (empty or cut off) is a dropped connection, worth retrying
+  const callback = text.indexOf(GVIZ_CALLBACK);
+  const start = callback === -1 ? -1 : text.indexOf('{', callback);
+  const end = text.lastIndexOf('}');
+  if (start === -1 || end < start) {
+    throw new SyntaxError("The gviz response ended before its data");
+  }
+
+  const jsonStr = text.substring(start, end + 1);
+  const json = JSON.parse(jsonStr);
+
+  if (json.status !== 'ok') {
+    throw gvizStatusError(json.errors?.[0]);
+  }
+
+  // Convert gviz rows to simple string arrays
+  // json.table.cols contains column metadata
+  // json.table.rows contains data
+  if (!json.table || !json.table.rows) {
+    console.error("Invalid response structure:", json);
+    throw new TimetableError('sheet-error', "Sheet response missing table data");
+  }
+
+  return json.table.rows.map((row: any) => {
+    // row.c is array of cells. Cell can be null (empty or covered by a merged cell).
+    if (!row.c) return [];
+    return row.c.map((cell: any) => {
+      if (!cell) return "";
+      // Use formatted value (f) if available to get the display string (e.g. "Oct 7"), otherwise value (v)
+      return (cell.f || cell.v || "").toString();
+    });
+  });
+};
+
+/**
+ * Turn the first entry of a gviz error response into a typed error with its reason
+ */
+const gvizStatusError = (detail: { reason?: string; message?: string; detailed_message?: string } | undefined): TimetableError => {
+  const reason = detail?.detailed_message || detail?.message || detail?.reason || 'no reason given';
+  if (/invalid sheet/i.test(reason)) {
+    return new TimetableError('tab-not-found', `Sheet API returned error status: ${reason}`);
+  }
+  if (detail?.reason === 'access_denied' || detail?.reason === 'user_not_authenticated') {
+    return new TimetableError('not-shared', `Sheet API returned error status: ${reason}`);
+  }
+  return new TimetableError('sheet-error', `Sheet API returned error status: ${reason}`);
+};
+
+// "Section A", "Sec. B", "Section - C (evening)". The letter must stand on its own,
+// so header words such as "Sections" or "Sec Mgmt" aren't read as a section
+const SECTION_LABEL_PATTERN = /^sec(?:tion)?(?:\.\s*|\s+|\s*[-:]\s*)([A-Z])(?=$|[\s\p{P}])/iu;
+const TIME_HEADER_PATTERN = /^\d{1,2}[:.]\d{2}/;
+
+// Header text that marks a room/faculty/notes column
+const DETAIL_HEADER_PATTERNS: [SlotDetailField, RegExp][] = [
+  ['room', /^(room|venue|location|classroom)s?$/i],
+  ['faculty', /^(faculty|professor|prof\.?|instructor|teacher)s?$/i],
+  ['notes', /^(notes?|remarks?|comments?)$/i],
+];
+
+const matchDetailHeader = (cell: string | undefined): SlotDetailField | null => {
+  const text = cell?.trim() || '';
+  const match = DETAIL_HEADER_PATTERNS.find(([, pattern]) => pattern.test(text));
+  return match ? match[0] : null;
+};
+
+/**
+ * Find the first row that contains a date-like string in the second column (Index 1).
+ * Everything above it is title/header rows.
+ */
+const findDataStartRow = (rows: string[][]): number => {
+  const monthPatterns = ["Oct", "Nov", "Dec", "Jan", "Feb", "Mar", "Apr", "May", "Jun", "Jul", "Aug", "Sep",
+                         "October", "November", "December", "January", "February", "March", "April"];
+  for (let i = 0; i < rows.length; i++) {
+    const cell = rows[i]?.[1];
+    if (cell && typeof cell === 'string') {
+      const cellLower = cell.toLowerCase();
+      if (monthPatterns.some(pattern => cellLower.includes(pattern.toLowerCase())) || /^\d{4}-\d{1,2}-\d{1,2}/.test(cell.trim())) {
+        return i;
       }
     }
   }
-  
-  // If still invalid, return null
-  if (isNaN(date.getTime())) {
-    return null;
-  }
-  
-  // Normalize to midnight for consistent comparison
-  date.setHours(0, 0, 0, 0);
-  return date;
+  return 0;
 };
 
-export const fetchTimetable = async (section: Section): Promise<DaySchedule[]> => {
-  // Use Google Visualization API to avoid API Key requirement for public sheets
-  const url = `https://docs.google.com/spreadsheets/d/${SPREADSHEET_ID}/gviz/tq?tqx=out:json&sheet=${SHEET_TAB_NAME}`;
+/**
+ * Locate every "Section A" / "Sec B" block in the header rows, along with the
+ * time sub-header cells underneath it. Returns an empty map if the sheet has no
+ * recognizable section headers.
+ */
+export const detectSectionLayouts = (
+  rows: string[][],
+  batch: BatchConfig = DEFAULT_BATCH.batch
+): Record<string, SectionColumnLayout> => {
+  const headerRows = rows.slice(0, findDataStartRow(rows));
 
-  try {
-    const response = await fetch(url);
-    const text = await response.text();
-
-    // Parse JSONP response
-    // Response usually starts with: /*O_o*/ google.visualization.Query.setResponse(
-    // and ends with: );
-    const start = text.indexOf('{');
-    const end = text.lastIndexOf('}');
-    
-    if (start === -1 || end === -1) {
-       throw new Error("Invalid sheet response format");
+  // Use the header row with the most section labels
+  let labelRowIndex = -1;
+  let labels: { section: string; column: number }[] = [];
+  headerRows.forEach((row, rowIndex) => {
+    const found: { section: string; column: number }[] = [];
+    row.forEach((cell, column) => {
+      const match = cell?.trim().match(SECTION_LABEL_PATTERN);
+      if (match) {
+        found.push({ section: match[1].toUpperCase(), column });
+      }
+    });
+    if (found.length > labels.length) {
+      labels = found;
+      labelRowIndex = rowIndex;
     }
-    
-    const jsonStr = text.substring(start, end + 1);
-    const json = JSON.parse(jsonStr);
+  });
+
+  const layouts: Record<string, SectionColumnLayout> = {};
+  if (labels.length === 0) {
+    return layouts;
+  }
 
-    if (json.status !== 'ok') {
-        throw new Error("Sheet API returned error status");
+  const rowWidth = Math.max(...headerRows.map((row) => row.length));
+  const timeRows = headerRows.slice(labelRowIndex + 1);
+
+  labels.forEach(({ section, column }, index) => {
+    // A block runs until the next section label (merged header cells only fill the first column)
+    const blockEnd = index + 1 < labels.length ? labels[index + 1].column : rowWidth;
+
+    // Prefer the time sub-header row with the most times inside this block
+    let timeColumns: number[] = [];
+    let headerTimes: string[] = [];
+    let timeRow: string[] = [];
+    timeRows.forEach((row) => {
+      const columns: number[] = [];
+      const times: string[] = [];
+      for (let c = column; c < blockEnd; c++) {
+        const cell = row[c]?.trim();
+        if (cell && TIME_HEADER_PATTERN.test(cell)) {
+          columns.push(c);
+          times.push(cell);
+        }
+      }
+      if (columns.length > timeColumns.length) {
+        timeColumns = columns;
+        headerTimes = times;
+        timeRow = row;
+      }
+    });
+
+    // Room/faculty/notes columns belong to the slot column just before them
+    const detailColumns: Partial<Record<SlotDetailField, number>>[] = timeColumns.map(() => ({}));
+    for (let c = column; c < blockEnd; c++) {
+      const field = matchDetailHeader(timeRow[c]);
+      const slotIndex = timeColumns.filter((timeColumn) => timeColumn < c).length - 1;
+      if (field && slotIndex >= 0) {
+        detailColumns[slotIndex][field] = c;
+      }
     }
 
-    // Convert gviz rows to simple string arrays to match existing logic
-    // json.table.cols contains column metadata
-    // json.table.rows contains data
-    if (!json.table || !json.table.rows) {
-      console.error("Invalid response structure:", json);
-      throw new Error("Sheet response missing table data");
+    if (timeColumns.length === 0) {
+      // No time sub-headers: assume the configured number of slots from the label column
+      const slotCount = Math.min(getSectionTemplate(batch, section).slotTimes.length, blockEnd - column);
+      timeColumns = Array.from({ length: slotCount }, (_, i) => column + i);
+      headerTimes = timeColumns.map(() => '');
+      detailColumns.push(...timeColumns.map(() => ({})));
     }
-    
-    const rows = json.table.rows.map((row: any) => {
-        // row.c is array of cells. Cell can be null.
-        if (!row.c) return [];
-        return row.c.map((cell: any) => {
-            if (!cell) return "";
-            // Use formatted value (f) if available to get the display string (e.g. "Oct 7"), otherwise value (v)
-            return (cell.f || cell.v || "").toString();
-        });
-    });
-    
-    console.log(`Parsed ${rows.length} rows from sheet`);
-
-    const processed: DaySchedule[] = [];
-    const startIndex = SECTION_COLUMN_MAP[section] || 21;
-    const currentSlotsConfig = getSectionSlots(section);
-
-    // Find the header row or start of data dynamically
-    // We look for the first row that contains a valid date-like string in the second column (Index 1)
-    let dataStartRow = 0;
-    const monthPatterns = ["Oct", "Nov", "Dec", "Jan", "Feb", "Mar", "Apr", "May", "Jun", "Jul", "Aug", "Sep",
-                           "October", "November", "December", "January", "February", "March", "April"];
-    for (let i = 0; i < rows.length; i++) {
-      const cell = rows[i]?.[1];
-      if (cell && typeof cell === 'string') {
-        const cellLower = cell.toLowerCase();
-        if (monthPatterns.some(pattern => cellLower.includes(pattern.toLowerCase()))) {
-          dataStartRow = i;
-          break;
-        }
+
+    layouts[section] = { section, columns: timeColumns, headerTimes, detected: true, detailColumns };
+  });
+
+  return layouts;
+};
+
+/**
+ * Sections labelled in the sheet's headers, for batches that don't list them in config
+ */
+export const getSheetSections = (rows: string[][]): Section[] => {
+  return Object.keys(detectSectionLayouts(rows)).sort();
+};
+
+/**
+ * Work out which columns hold a section's slots: from the sheet headers when present,
+ * otherwise from the batch's configured start column. Throws if the layout can't be recognized.
+ */
+export const resolveSectionLayout = (
+  rows: string[][],
+  section: Section,
+  batch: BatchConfig = DEFAULT_BATCH.batch
+): SectionColumnLayout => {
+  const detected = detectSectionLayouts(rows, batch);
+  const detectedSections = Object.keys(detected);
+
+  if (detectedSections.length > 0) {
+    if (!detected[section]) {
+      throw new TimetableError(
+        'layout',
+        `Section ${section} was not found in the sheet header (found: ${detectedSections.sort().join(', ')}). ` +
+        `The sheet layout may have changed.`
+      );
+    }
+    return detected[section];
+  }
+
+  const template = getSectionTemplate(batch, section);
+  const startIndex = template.startColumn;
+  if (startIndex === undefined) {
+    throw new TimetableError(
+      'layout',
+      `Could not recognize the sheet layout: no "Section ${section}" header was found ` +
+      `and there is no fallback column for it.`
+    );
+  }
+
+  console.warn(`No section headers found in sheet; using fallback column ${startIndex} for section ${section}`);
+  const columns = template.slotTimes.map((_, offset) => startIndex + offset);
+  return { section, columns, headerTimes: columns.map(() => ''), detected: false, detailColumns: columns.map(() => ({})) };
+};
+
+/**
+ * Start and end time of each slot column, read from the time header cells.
+ * Blank or unreadable headers fall back to the section's template times.
+ */
+export const resolveSlotTimes = (
+  layout: SectionColumnLayout,
+  section: Section,
+  batch: BatchConfig = DEFAULT_BATCH.batch
+): { startTime: string; endTime: string }[] => {
+  const { slotTimes: templateTimes, classDurationMinutes: duration } = getSectionTemplate(batch, section);
+
+  return layout.columns.map((_, index) => {
+    const header = parseTimeRange(layout.headerTimes[index] || '');
+    const startTime = header?.start ?? templateTimes[index];
+    if (!startTime) {
+      throw new TimetableError('layout', `No start time for slot ${index + 1} of section ${section}: the sheet's time header is blank.`);
+    }
+    return { startTime, endTime: header?.end ?? addMinutesToTime(startTime, duration) };
+  });
+};
+
+/**
+ * Extract one section's classes from the sheet rows
+ */
+export const parseTimetableRows = (
+  rows: string[][],
+  section: Section,
+  term: AcademicTerm = getAcademicTerm(),
+  batch: BatchConfig = DEFAULT_BATCH.batch
+): DaySchedule[] => {
+  const processed: DaySchedule[] = [];
+  const layout = resolveSectionLayout(rows, section, batch);
+  const slotTimes = resolveSlotTimes(layout, section, batch);
+  const duration = getSectionTemplate(batch, section).classDurationMinutes;
+
+  // Find the header row or start of data dynamically
+  const dataStartRow = findDataStartRow(rows);
+
+  console.log(`Processing section ${section}, starting from row ${dataStartRow}, columns ${layout.columns.join(',')}${layout.detected ? '' : ' (fallback)'}`);
+
+  for (let i = dataStartRow; i < rows.length; i++) {
+    const row = rows[i];
+    // Safety check for row length
+    if (!row || row.length < 2) continue;
+
+    const dateObj = parseSheetDate(row[1], term);
+    if (!dateObj) {
+      // Only log first few failures to avoid spam
+      if (i < dataStartRow + 3) {
+        console.log(`Failed to parse date from row ${i}, cell value: "${row[1]}"`);
       }
+      continue;
     }
 
-    console.log(`Processing section ${section}, starting from row ${dataStartRow}, column index ${startIndex}`);
-    
-    for (let i = dataStartRow; i < rows.length; i++) {
-      const row = rows[i];
-      // Safety check for row length
-      if (!row || row.length < 2) continue;
-
-      const dateObj = parseSheetDate(row[1]);
-      if (!dateObj) {
-        // Only log first few failures to avoid spam
-        if (i < dataStartRow + 3) {
-          console.log(`Failed to parse date from row ${i}, cell value: "${row[1]}"`);
-        }
-        continue;
+    const currentSlots: TimeSlot[] = [];
+    let hasClass = false;
+
+    layout.columns.forEach((column, slotIndex) => {
+      // Safe access to column
+      const val = row[column];
+      if (val && typeof val === 'string' && val.trim() !== "-" && val.trim() !== "") {
+        // A time written in the cell itself overrides the header for that day
+        const override = extractTimeOverride(val.trim());
+        const slot: TimeSlot = override
+          ? {
+              startTime: override.start,
+              endTime: override.end ?? addMinutesToTime(override.start, duration),
+              slotIndex,
+              subject: override.subject
+            }
+          : {
+              ...slotTimes[slotIndex],
+              slotIndex,
+              subject: val.trim()
+            };
+
+        // Room/faculty/notes from the columns beside this slot
+        Object.entries(layout.detailColumns[slotIndex] || {}).forEach(([field, detailColumn]) => {
+          const detail = row[detailColumn!]?.trim();
+          if (detail && detail !== "-") {
+            slot[field as SlotDetailField] = detail;
+          }
+        });
+
+        currentSlots.push(slot);
+        hasClass = true;
       }
+    });
 
-      const currentSlots: TimeSlot[] = [];
-      let hasClass = false;
-
-      currentSlotsConfig.forEach((time, offset) => {
-        // Safe access to column
-        const val = row[startIndex + offset];
-        if (val && typeof val === 'string' && val.trim() !== "-" && val.trim() !== "") {
-          currentSlots.push({
-            time: time,
-            subject: val.trim()
-          });
-          hasClass = true;
-        }
+    if (hasClass) {
+      processed.push({
+        dateObj: dateObj,
+        dateStr: row[1],
+        dayStr: row[2] || "",
+        // Overrides can move a class ahead of an earlier column
+        slots: currentSlots.sort((a, b) => a.startTime.localeCompare(b.startTime))
       });
+    }
+  }
 
-      if (hasClass) {
-        processed.push({
-          dateObj: dateObj,
-          dateStr: row[1],
-          dayStr: row[2] || "",
-          slots: currentSlots
-        });
+  console.log(`Processed ${processed.length} days with classes for section ${section}`);
+  return processed;
+};
+
+// Subjects are matched case- and whitespace-insensitively
+const normalizeSubjectKey = (subject: string): string => subject.trim().replace(/\s+/g, ' ').toLowerCase();
+
+/**
+ * Read the subject details tab into a subject -> details map. Expects a header row
+ * with a "Subject" column and any of Faculty/Room/Notes; returns an empty map otherwise.
+ */
+export const parseSubjectDetails = (rows: string[][]): Record<string, SlotDetails> => {
+  const details: Record<string, SlotDetails> = {};
+
+  const headerIndex = rows.findIndex((row) => row.some((cell) => /^(subject|course)s?$/i.test(cell?.trim() || '')));
+  if (headerIndex === -1) {
+    return details;
+  }
+
+  const header = rows[headerIndex];
+  const subjectColumn = header.findIndex((cell) => /^(subject|course)s?$/i.test(cell?.trim() || ''));
+  const fieldColumns = header
+    .map((cell, column) => ({ field: matchDetailHeader(cell), column }))
+    .filter((entry): entry is { field: SlotDetailField; column: number } => entry.field !== null);
+
+  rows.slice(headerIndex + 1).forEach((row) => {
+    const subject = row[subjectColumn]?.trim();
+    if (!subject) return;
+
+    const entry: SlotDetails = {};
+    fieldColumns.forEach(({ field, column }) => {
+      const value = row[column]?.trim();
+      if (value && value !== "-") {
+        entry[field] = value;
       }
+    });
+    if (Object.keys(entry).length > 0) {
+      details[normalizeSubjectKey(subject)] = entry;
     }
-    
-    console.log(`Processed ${processed.length} days with classes for section ${section}`);
-    return processed;
+  });
+
+  return details;
+};
+
+/**
+ * Fill in room/faculty/notes from the subject details map. Values read from
+ * the timetable itself take precedence.
+ */
+export const applySubjectDetails = (
+  schedule: DaySchedule[],
+  details: Record<string, SlotDetails>
+): DaySchedule[] => {
+  if (Object.keys(details).length === 0) {
+    return schedule;
+  }
+
+  return schedule.map((day) => ({
+    ...day,
+    slots: day.slots.map((slot) => ({ ...details[normalizeSubjectKey(slot.subject)], ...slot })),
+  }));
+};
+
+/**
+ * Fetch the source's optional subject details. Missing or unreadable tables just mean no details.
+ */
+const fetchSubjectDetails = async (source: TimetableSource, signal?: AbortSignal): Promise<Record<string, SlotDetails>> => {
+  try {
+    return parseSubjectDetails(await source.fetchDetailRows(signal));
+  } catch (error) {
+    if (signal?.aborted) throw error;
+    console.warn("Subject details unavailable:", error);
+    return {};
+  }
+};
+
+/**
+ * Fetch and parse a section's timetable. Transient failures are retried with backoff;
+ * other failures reject with a TimetableError saying what went wrong. Passing a signal
+ * lets the caller cancel the requests, e.g. when the selected section changes.
+ */
+export const fetchTimetable = async (
+  section: Section,
+  source: TimetableSource,
+  term: AcademicTerm = getAcademicTerm(),
+  batch: BatchConfig = DEFAULT_BATCH.batch,
+  signal?: AbortSignal
+): Promise<DaySchedule[]> => {
+  try {
+    const [rows, subjectDetails] = await Promise.all([
+      retryWithBackoff(() => source.fetchRows(signal), signal),
+      fetchSubjectDetails(source, signal),
+    ]);
+    console.log(`Parsed ${rows.length} rows from ${source.label}`);
+
+    return applySubjectDetails(parseTimetableRows(rows, section, term, batch), subjectDetails);
 
   } catch (error) {
+    if (signal?.aborted) throw error;
     console.error("Failed to fetch timetable:", error);
     const errorMessage = error instanceof Error ? error.message : String(error);
     console.error("Error details:", {
       message: errorMessage,
       section,
-      spreadsheetId: SPREADSHEET_ID,
-      sheetTab: SHEET_TAB_NAME
+      batch: batch.id,
+      source: source.key
     });
-    throw new Error(`Failed to load timetable: ${errorMessage}`);
+    throw error;
+  }
+};
+
+/**
+ * Sections of a batch: as configured, or read from the sheet's headers
+ */
+export const fetchBatchSections = async (
+  batch: BatchConfig,
+  source: TimetableSource,
+  signal?: AbortSignal
+): Promise<Section[]> => {
+  if (batch.sections) {
+    return batch.sections.map((section) => section.id);
+  }
+  const sections = getSheetSections(await retryWithBackoff(() => source.fetchRows(signal), signal));
+  if (sections.length === 0) {
+    throw new TimetableError('layout', `No "Section X" headers were found in ${source.label}.`);
   }
+  return sections;
 };
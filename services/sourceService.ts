@@ -0,0 +1,342 @@
+// Timetable sources: which sheet, export or file the timetable is read from
+
+import { SPREADSHEET_ID, SHEET_TAB_NAME, SUBJECT_DETAILS_TAB_NAME } from '../constants';
+import { BatchConfig, SelectedBatch, TimetableSource, TimetableSourceConfig } from '../types';
+import { DEFAULT_BATCH, getBatchId } from './programmeService';
+import { parseGvizResponse } from './sheetService';
+import { TimetableError, httpStatusError } from './errorService';
+
+const SOURCE_STORAGE_KEY = 'timetable_source';
+const UPLOADED_FILE_KEY = 'timetable_uploaded_file';
+
+export const DEFAULT_SOURCE_CONFIG: TimetableSourceConfig = {
+  type: 'gviz',
+  spreadsheetId: SPREADSHEET_ID,
+  tabName: SHEET_TAB_NAME,
+  detailsTabName: SUBJECT_DETAILS_TAB_NAME,
+};
+
+// Rows read from an uploaded .xlsx/.csv file
+export interface UploadedTimetable {
+  fileName: string;
+  rows: string[][];
+  detailRows: string[][];
+}
+
+/**
+ * Split CSV text into rows of cells. Handles quoted cells with commas, quotes and line breaks.
+ */
+export const parseCsv = (text: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      row.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+
+  if (cell !== '' || row.length > 0) {
+    row.push(cell);
+    rows.push(row);
+  }
+  return rows;
+};
+
+/**
+ * Read a static JSON timetable: either the rows themselves or { timetable, details }
+ */
+export const parseJsonRows = (json: unknown): { rows: string[][]; detailRows: string[][] } => {
+  const isRows = (value: unknown): value is unknown[][] =>
+    Array.isArray(value) && value.every((row) => Array.isArray(row));
+  const toStrings = (rows: unknown[][]) => rows.map((row) => row.map((cell) => (cell ?? '').toString()));
+
+  if (isRows(json)) {
+    return { rows: toStrings(json), detailRows: [] };
+  }
+  const data = json as { timetable?: unknown; details?: unknown } | null;
+  if (data && isRows(data.timetable)) {
+    return { rows: toStrings(data.timetable), detailRows: isRows(data.details) ? toStrings(data.details) : [] };
+  }
+  throw new TimetableError('layout', "Timetable JSON must be an array of rows or { timetable, details }.");
+};
+
+// Where Google sends requests for sheets the visitor can't open
+const SIGN_IN_URL_PATTERN = /^https:\/\/accounts\.google\.com\/|\/ServiceLogin\b/;
+
+const fetchText = async (url: string, signal?: AbortSignal): Promise<string> => {
+  const response = await fetch(url, { signal });
+  if (response.redirected && SIGN_IN_URL_PATTERN.test(response.url)) {
+    throw new TimetableError('not-shared', `Request for ${url} was sent to the Google sign-in page`);
+  }
+  if (!response.ok) {
+    throw httpStatusError(response.status, url);
+  }
+  return response.text();
+};
+
+const buildGvizUrl = (spreadsheetId: string, tabName: string): string => {
+  return `https://docs.google.com/spreadsheets/d/${spreadsheetId}/gviz/tq?tqx=out:json&sheet=${encodeURIComponent(tabName)}`;
+};
+
+export const getUploadedTimetable = (): UploadedTimetable | null => {
+  try {
+    const saved = localStorage.getItem(UPLOADED_FILE_KEY);
+    return saved ? JSON.parse(saved) : null;
+  } catch {
+    return null;
+  }
+};
+
+const pad = (n: number) => String(n).padStart(2, '0');
+
+/**
+ * Write a workbook cell as the text the sheet shows. Dates and times come back from
+ * read-excel-file as UTC Dates; a time on its own sits on Excel's 1899/1904 epoch day.
+ */
+const workbookCellToText = (value: unknown): string => {
+  if (value === null || value === undefined) return '';
+  if (!(value instanceof Date)) return String(value);
+  if (value.getUTCFullYear() < 1905) {
+    return `${pad(value.getUTCHours())}:${pad(value.getUTCMinutes())}`;
+  }
+  return `${value.getUTCFullYear()}-${pad(value.getUTCMonth() + 1)}-${pad(value.getUTCDate())}`;
+};
+
+/**
+ * Parse an uploaded .xlsx or .csv file. Workbooks use the timetable and subject details
+ * tabs by name when present, otherwise the first sheet.
+ */
+export const readTimetableFile = async (file: File): Promise<UploadedTimetable> => {
+  let rows: string[][];
+  let detailRows: string[][] = [];
+
+  if (/\.csv$/i.test(file.name)) {
+    rows = parseCsv(await file.text());
+  } else if (/\.xlsx$/i.test(file.name)) {
+    // The workbook reader is only needed for uploads, so keep it out of the main bundle
+    const { default: readXlsxFile } = await import('read-excel-file/browser');
+    const sheets = await readXlsxFile(file);
+    const toRows = (name: string | undefined): string[][] => {
+      const sheet = sheets.find((s) => s.sheet === name);
+      return sheet ? sheet.data.map((row) => row.map(workbookCellToText)) : [];
+    };
+    rows = toRows(sheets.some((s) => s.sheet === SHEET_TAB_NAME) ? SHEET_TAB_NAME : sheets[0]?.sheet);
+    detailRows = toRows(SUBJECT_DETAILS_TAB_NAME);
+  } else {
+    throw new Error(`${file.name} isn't an .xlsx or .csv file. Download the timetable as either and upload that.`);
+  }
+
+  if (rows.length === 0) {
+    throw new Error(`${file.name} has no timetable rows`);
+  }
+  return { fileName: file.name, rows, detailRows };
+};
+
+const isQuotaExceededError = (error: unknown): boolean => {
+  return error instanceof DOMException && (error.name === 'QuotaExceededError' || error.name === 'NS_ERROR_DOM_QUOTA_REACHED');
+};
+
+/**
+ * Keep an uploaded file's rows and return the source config that reads them.
+ * Throws if the device has no room left to store the file.
+ */
+export const saveUploadedTimetable = (uploaded: UploadedTimetable): TimetableSourceConfig => {
+  try {
+    localStorage.setItem(UPLOADED_FILE_KEY, JSON.stringify(uploaded));
+  } catch (error) {
+    if (isQuotaExceededError(error)) {
+      throw new Error(`${uploaded.fileName} is too large to keep on this device. Remove unused rows or columns and upload it again.`);
+    }
+    throw error;
+  }
+  return { type: 'file', fileName: uploaded.fileName, uploadedAt: new Date().toISOString() };
+};
+
+/**
+ * Build a fetchable source from its config
+ */
+export const createTimetableSource = (config: TimetableSourceConfig): TimetableSource => {
+  switch (config.type) {
+    case 'gviz': {
+      const detailsTabName = config.detailsTabName;
+      return {
+        key: `gviz:${config.spreadsheetId}/${config.tabName}`,
+        label: `Google Sheet (${config.tabName})`,
+        fetchRows: async (signal) => parseGvizResponse(await fetchText(buildGvizUrl(config.spreadsheetId, config.tabName), signal)),
+        fetchDetailRows: async (signal) => detailsTabName
+          ? parseGvizResponse(await fetchText(buildGvizUrl(config.spreadsheetId, detailsTabName), signal))
+          : [],
+      };
+    }
+    case 'csv': {
+      const detailsUrl = config.detailsUrl;
+      return {
+        key: `csv:${config.url}`,
+        label: 'Published CSV',
+        fetchRows: async (signal) => parseCsv(await fetchText(config.url, signal)),
+        fetchDetailRows: async (signal) => detailsUrl ? parseCsv(await fetchText(detailsUrl, signal)) : [],
+      };
+    }
+    case 'file': {
+      const readUpload = (): UploadedTimetable => {
+        const uploaded = getUploadedTimetable();
+        if (!uploaded) {
+          throw new Error(`The uploaded file ${config.fileName} is no longer stored. Upload it again in source settings.`);
+        }
+        return uploaded;
+      };
+      return {
+        key: `file:${config.fileName}@${config.uploadedAt}`,
+        label: config.fileName,
+        fetchRows: async () => readUpload().rows,
+        fetchDetailRows: async () => readUpload().detailRows,
+      };
+    }
+    case 'json': {
+      // fetchRows and fetchDetailRows read the same file, so download and parse it once
+      let loading: Promise<{ rows: string[][]; detailRows: string[][] }> | null = null;
+      const fetchJson = async (signal?: AbortSignal) => {
+        const text = await fetchText(config.url, signal);
+        try {
+          return parseJsonRows(JSON.parse(text));
+        } catch (error) {
+          // A whole file that isn't valid JSON won't fix itself on retry
+          if (error instanceof SyntaxError) {
+            throw new TimetableError('layout', `${config.url} is not valid JSON: ${error.message}.`);
+          }
+          throw error;
+        }
+      };
+      const load = (signal?: AbortSignal) => {
+        if (!loading) {
+          // Forget a failed download so a retry fetches the file again
+          loading = fetchJson(signal).catch((error) => {
+            loading = null;
+            throw error;
+          });
+        }
+        return loading;
+      };
+      return {
+        key: `json:${config.url}`,
+        label: `JSON (${config.url})`,
+        fetchRows: async (signal) => (await load(signal)).rows,
+        fetchDetailRows: async (signal) => (await load(signal)).detailRows,
+      };
+    }
+  }
+};
+
+// URL parameters that describe a source
+const SOURCE_PARAMS = ['sheet', 'tab', 'detailsTab', 'csv', 'detailsCsv', 'json'];
+
+/**
+ * Read a source from URL parameters: ?sheet=<id>[&tab=<name>], ?csv=<url> or ?json=<url>
+ */
+export const parseSourceParams = (params: URLSearchParams): TimetableSourceConfig | null => {
+  const sheet = params.get('sheet');
+  if (sheet) {
+    return {
+      type: 'gviz',
+      spreadsheetId: extractSpreadsheetId(sheet),
+      tabName: params.get('tab') || SHEET_TAB_NAME,
+      detailsTabName: params.get('detailsTab') || SUBJECT_DETAILS_TAB_NAME,
+    };
+  }
+  const csv = params.get('csv');
+  if (csv) return { type: 'csv', url: csv, detailsUrl: params.get('detailsCsv') || undefined };
+  const json = params.get('json');
+  if (json) return { type: 'json', url: json };
+  return null;
+};
+
+/**
+ * Accept either a bare spreadsheet ID or a full Google Sheets link
+ */
+export const extractSpreadsheetId = (value: string): string => {
+  const match = value.match(/\/spreadsheets\/d\/([a-zA-Z0-9-_]+)/);
+  return match ? match[1] : value.trim();
+};
+
+/**
+ * Where a batch's source override is kept. The default batch keeps the original key
+ * so a source chosen before batches existed still applies to it.
+ */
+const getSourceStorageKey = (selected: SelectedBatch): string => {
+  if (selected.programme === DEFAULT_BATCH.programme && selected.batch === DEFAULT_BATCH.batch) {
+    return SOURCE_STORAGE_KEY;
+  }
+  return `${SOURCE_STORAGE_KEY}:${getBatchId(selected)}`;
+};
+
+/**
+ * Source chosen for this batch in settings or through a link, or null to use the batch's own source
+ */
+export const getSavedSourceConfig = (selected: SelectedBatch): TimetableSourceConfig | null => {
+  try {
+    const saved = localStorage.getItem(getSourceStorageKey(selected));
+    return saved ? JSON.parse(saved) : null;
+  } catch {
+    return null;
+  }
+};
+
+export const saveSourceConfig = (selected: SelectedBatch, config: TimetableSourceConfig): void => {
+  localStorage.setItem(getSourceStorageKey(selected), JSON.stringify(config));
+};
+
+export const clearSourceConfig = (selected: SelectedBatch): void => {
+  localStorage.removeItem(getSourceStorageKey(selected));
+};
+
+export const getBatchSourceConfig = (batch?: BatchConfig): TimetableSourceConfig => {
+  return batch?.source ?? DEFAULT_SOURCE_CONFIG;
+};
+
+/**
+ * The source to load a batch from: one chosen for it in settings or through a link,
+ * otherwise the batch's configured sheet
+ */
+export const getActiveSourceConfig = (selected: SelectedBatch): TimetableSourceConfig => {
+  return getSavedSourceConfig(selected) ?? getBatchSourceConfig(selected.batch);
+};
+
+/**
+ * Take a source from the page URL (?sheet=, ?csv=, ?json=) as the override for the batch the
+ * app opens with, so an installed app keeps using it after being reopened without the link.
+ * The parameters are then dropped from the address, so switching batch doesn't carry them along.
+ */
+export const adoptSourceFromUrl = (selected: SelectedBatch): void => {
+  const params = new URLSearchParams(window.location.search);
+  const fromUrl = parseSourceParams(params);
+  if (!fromUrl) return;
+
+  saveSourceConfig(selected, fromUrl);
+  SOURCE_PARAMS.forEach((name) => params.delete(name));
+  const query = params.toString();
+  window.history.replaceState(window.history.state, '', `${window.location.pathname}${query ? `?${query}` : ''}${window.location.hash}`);
+};
@@ -0,0 +1,75 @@
+// Session counts and class load, computed from the parsed timetable
+
+import { DaySchedule } from '../types';
+import { isAssessmentSubject, normalizeCourseKey, splitSubjectOptions } from './subjectService';
+import { getWeekStart } from './termService';
+import { getClassTiming } from './timeService';
+
+export interface CourseStats {
+  course: string; // Most common spelling in the sheet
+  completed: number;
+  remaining: number;
+}
+
+export interface WeekLoad {
+  weekStart: Date; // Monday
+  classes: number;
+}
+
+/**
+ * Completed vs remaining sessions per course. Quizzes and exams aren't sessions;
+ * combined cells ("CF/BA") count once for each course.
+ */
+export const getCourseStats = (schedule: DaySchedule[], now: Date = new Date()): CourseStats[] => {
+  const courses = new Map<string, { spellings: Map<string, number>; completed: number; remaining: number }>();
+
+  schedule.forEach((day) => {
+    day.slots.forEach((slot) => {
+      if (isAssessmentSubject(slot.subject)) return;
+      const isPast = getClassTiming(day.dateObj, slot.startTime, slot.endTime, now).status === 'past';
+
+      splitSubjectOptions(slot.subject).forEach((option) => {
+        const key = normalizeCourseKey(option);
+        const entry = courses.get(key) ?? { spellings: new Map(), completed: 0, remaining: 0 };
+        entry.spellings.set(option, (entry.spellings.get(option) || 0) + 1);
+        if (isPast) {
+          entry.completed++;
+        } else {
+          entry.remaining++;
+        }
+        courses.set(key, entry);
+      });
+    });
+  });
+
+  return Array.from(courses.values())
+    .map(({ spellings, completed, remaining }) => ({
+      course: [...spellings.entries()].sort((a, b) => b[1] - a[1])[0][0],
+      completed,
+      remaining,
+    }))
+    .sort((a, b) => (b.completed + b.remaining) - (a.completed + a.remaining) || a.course.localeCompare(b.course));
+};
+
+/**
+ * Number of classes in each week (Monday to Sunday), in date order
+ */
+export const getWeeklyLoad = (schedule: DaySchedule[]): WeekLoad[] => {
+  const weeks = new Map<number, number>();
+  schedule.forEach((day) => {
+    const weekStart = getWeekStart(day.dateObj).getTime();
+    weeks.set(weekStart, (weeks.get(weekStart) || 0) + day.slots.length);
+  });
+
+  return Array.from(weeks, ([weekStart, classes]) => ({ weekStart: new Date(weekStart), classes }))
+    .sort((a, b) => a.weekStart.getTime() - b.weekStart.getTime());
+};
+
+/**
+ * Days with the most classes, busiest first (earlier dates break ties)
+ */
+export const getBusiestDays = (schedule: DaySchedule[], limit: number = 5): DaySchedule[] => {
+  return [...schedule]
+    .sort((a, b) => b.slots.length - a.slots.length || a.dateObj.getTime() - b.dateObj.getTime())
+    .slice(0, limit);
+};
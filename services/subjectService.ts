@@ -0,0 +1,104 @@
+// Helpers for classifying subject names from the sheet
+
+import { DaySchedule, Section } from '../types';
+
+/**
+ * Quizzes, exams and mid/end terms
+ */
+export const isAssessmentSubject = (subject: string): boolean => {
+  const s = subject.toLowerCase();
+  return s.includes("quiz") || s.includes("exam") || s.includes("mid term") || s.includes("end term");
+};
+
+/**
+ * Split a combined cell into the subjects it offers, e.g. "CF/BA" -> ["CF", "BA"]
+ * and "A: Marketing | B: Pricing" -> ["Marketing", "Pricing"]. Slashes only split
+ * when every part looks like a subject, so "Quiz 1/2" stays whole.
+ */
+export const splitSubjectOptions = (subject: string): string[] => {
+  const groups = subject.includes('|')
+    ? subject.split('|').map((part) => part.trim().replace(/^(?:sec(?:tion)?\s*)?[A-Z0-9]{1,3}\s*:\s*/i, ''))
+    : [subject.trim()];
+
+  return groups
+    .flatMap((group) => {
+      const parts = group.split('/').map((part) => part.trim());
+      return parts.length > 1 && parts.every((part) => /[A-Za-z]{2,}/.test(part)) ? parts : [group];
+    })
+    .filter((part) => part !== '');
+};
+
+/**
+ * Every distinct subject option in a timetable, alphabetically
+ */
+export const getSubjectOptions = (schedule: DaySchedule[]): string[] => {
+  const options = new Set<string>();
+  schedule.forEach((day) => day.slots.forEach((slot) => splitSubjectOptions(slot.subject).forEach((o) => options.add(o))));
+  return Array.from(options).sort((a, b) => a.localeCompare(b));
+};
+
+/**
+ * Subject a class ID is built from: the whole cell, even when only some of its subjects are shown
+ */
+export const getClassIdSubject = (item: { subject: string; cellSubject?: string }): string => {
+  return item.cellSubject ?? item.subject;
+};
+
+/**
+ * Drop classes the student doesn't attend. Combined cells name only the subjects still
+ * shown and keep the whole cell in cellSubject, so their class IDs don't change.
+ * Days left without classes are removed.
+ */
+export const filterScheduleBySubjects = (schedule: DaySchedule[], hiddenSubjects: string[]): DaySchedule[] => {
+  if (hiddenSubjects.length === 0) return schedule;
+  const hidden = new Set(hiddenSubjects);
+
+  return schedule
+    .map((day) => ({
+      ...day,
+      slots: day.slots.flatMap((slot) => {
+        const options = splitSubjectOptions(slot.subject);
+        const visible = options.filter((option) => !hidden.has(option));
+        if (visible.length === 0) return [];
+        if (visible.length === options.length) return [slot];
+        return [{ ...slot, subject: visible.join(' / '), cellSubject: slot.cellSubject ?? slot.subject }];
+      }),
+    }))
+    .filter((day) => day.slots.length > 0);
+};
+
+const hiddenSubjectsKey = (section: Section) => `timetable_hidden_subjects_${section}`;
+
+/**
+ * Subjects the student has unticked for a section, or null if they haven't set up
+ * "My subjects" yet. Storing the unticked ones means new subjects show up by default.
+ */
+export const getHiddenSubjects = (section: Section): string[] | null => {
+  const saved = localStorage.getItem(hiddenSubjectsKey(section));
+  if (saved === null) return null;
+
+  try {
+    const parsed = JSON.parse(saved);
+    return Array.isArray(parsed) ? parsed.filter((s): s is string => typeof s === 'string') : [];
+  } catch {
+    return [];
+  }
+};
+
+export const saveHiddenSubjects = (section: Section, hiddenSubjects: string[]): void => {
+  localStorage.setItem(hiddenSubjectsKey(section), JSON.stringify(hiddenSubjects));
+};
+
+// Trailing words that don't change which course a cell refers to ("Macro Eco", "HRM Session")
+const COURSE_SUFFIX_PATTERN = /\s+(eco|econ|economics|session|class|lecture|lec|tutorial)\.?$/i;
+
+/**
+ * Key that treats spelling variants of a course as one: "Macro", "Macro Eco" and "MACRO" -> "macro"
+ */
+export const normalizeCourseKey = (subject: string): string => {
+  let key = subject.trim().replace(/\s+/g, ' ').toLowerCase();
+  while (COURSE_SUFFIX_PATTERN.test(key)) {
+    key = key.replace(COURSE_SUFFIX_PATTERN, '');
+  }
+  return key;
+};
@@ -0,0 +1,212 @@
+// Academic term helpers: resolving the current term, inferring years for
+// sheet dates that omit them, and building the date range for the calendar strip
+
+import { ACADEMIC_TERM_CONFIG } from '../constants';
+import { AcademicTerm, AcademicTermConfig, DaySchedule } from '../types';
+
+const MONTHS = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Normalize a date to local midnight (returns a new Date)
+ */
+export const startOfDay = (date: Date): Date => {
+  const d = new Date(date);
+  d.setHours(0, 0, 0, 0);
+  return d;
+};
+
+/**
+ * Add a number of days to a date (returns a new Date)
+ */
+export const addDays = (date: Date, days: number): Date => {
+  const d = new Date(date);
+  d.setDate(d.getDate() + days);
+  return d;
+};
+
+/**
+ * Get the Monday of the week containing the date, at midnight
+ */
+export const getWeekStart = (date: Date): Date => {
+  const d = startOfDay(date);
+  // getDay() is 0 for Sunday; treat Sunday as the end of the week
+  const offset = (d.getDay() + 6) % 7;
+  return addDays(d, -offset);
+};
+
+/**
+ * Resolve a month name or abbreviation ("Oct", "October", "Sept") to a 0-indexed month
+ */
+export const parseMonthName = (name: string): number | null => {
+  const index = MONTHS.indexOf(name.toLowerCase().substring(0, 3));
+  return index === -1 ? null : index;
+};
+
+/**
+ * Build the concrete term that starts in the given year
+ */
+const buildTerm = (startYear: number, config: AcademicTermConfig): AcademicTerm => {
+  // Terms whose end month comes before the start month roll over into the next year
+  const endYear = config.endMonth < config.startMonth ? startYear + 1 : startYear;
+  return {
+    start: new Date(startYear, config.startMonth, config.startDay),
+    end: new Date(endYear, config.endMonth, config.endDay),
+  };
+};
+
+/**
+ * Get the academic term containing the reference date.
+ * A term stays current for config.graceDays after it ends, so dates on the sheet keep
+ * resolving into it while exams wrap up. After that, the upcoming term is returned
+ * so the app is ready for the new sheet.
+ */
+export const getAcademicTerm = (
+  reference: Date = new Date(),
+  config: AcademicTermConfig = ACADEMIC_TERM_CONFIG
+): AcademicTerm => {
+  const ref = startOfDay(reference);
+  const year = ref.getFullYear();
+  const graceDays = config.graceDays ?? 0;
+
+  // Check the term that started last year first (it may still be running), then this year's
+  for (const startYear of [year - 1, year]) {
+    const term = buildTerm(startYear, config);
+    if (ref >= term.start && ref <= addDays(term.end, graceDays)) {
+      return term;
+    }
+  }
+
+  const thisYearTerm = buildTerm(year, config);
+  return ref < thisYearTerm.start ? thisYearTerm : buildTerm(year + 1, config);
+};
+
+/**
+ * Infer the year for a day/month that has no explicit year.
+ * Picks the year that places the date inside the term, or the closest one to it.
+ */
+export const inferYear = (month: number, day: number, term: AcademicTerm): number => {
+  const firstYear = term.start.getFullYear();
+  const lastYear = term.end.getFullYear();
+
+  let bestYear = firstYear;
+  let bestDistance = Infinity;
+
+  for (let year = firstYear - 1; year <= lastYear + 1; year++) {
+    const candidate = new Date(year, month, day);
+    if (candidate >= term.start && candidate <= term.end) {
+      return year;
+    }
+    const distance = Math.min(
+      Math.abs(candidate.getTime() - term.start.getTime()),
+      Math.abs(candidate.getTime() - term.end.getTime())
+    );
+    if (distance < bestDistance) {
+      bestDistance = distance;
+      bestYear = year;
+    }
+  }
+
+  return bestYear;
+};
+
+/**
+ * Build a date, rejecting overflow (e.g. "Feb 31" rolling into March)
+ */
+const makeDate = (year: number, month: number, day: number): Date | null => {
+  const date = new Date(year, month, day);
+  if (date.getFullYear() !== year || date.getMonth() !== month || date.getDate() !== day) {
+    return null;
+  }
+  return date;
+};
+
+/**
+ * Parse a date cell from the sheet.
+ * Accepts "Oct 7", "October 7th", "7 Oct", "7 Oct 2026", "Oct 7, 2026", "2026-10-07",
+ * optional leading weekday names, and gviz "Date(2026,9,7)" literals.
+ * Dates without a year get one inferred from the academic term.
+ */
+export const parseSheetDate = (dateStr: string, term: AcademicTerm = getAcademicTerm()): Date | null => {
+  if (!dateStr) return null;
+  const cleanStr = dateStr.replace(/(\r\n|\n|\r)/gm, " ").replace(/\s+/g, " ").trim();
+  if (!cleanStr) return null;
+
+  // gviz raw date value: Date(2026,9,7) - month is already 0-indexed
+  const gvizMatch = cleanStr.match(/^Date\((\d{4}),\s*(\d{1,2}),\s*(\d{1,2})/);
+  if (gvizMatch) {
+    return makeDate(Number(gvizMatch[1]), Number(gvizMatch[2]), Number(gvizMatch[3]));
+  }
+
+  // ISO format: 2026-10-07
+  const isoMatch = cleanStr.match(/^(\d{4})-(\d{1,2})-(\d{1,2})/);
+  if (isoMatch) {
+    return makeDate(Number(isoMatch[1]), Number(isoMatch[2]) - 1, Number(isoMatch[3]));
+  }
+
+  // Drop a leading weekday ("Tue, Oct 7" / "Tuesday 7 Oct") so the month is found first
+  const withoutWeekday = cleanStr.replace(/^(mon|tue|wed|thu|fri|sat|sun)[a-z]*\.?,?\s+/i, "");
+
+  let month: number | null = null;
+  let day: number | null = null;
+  let year: number | null = null;
+
+  // Month first: "Oct 7", "October 7th, 2026"
+  const monthFirst = withoutWeekday.match(/^([A-Za-z]+)\.?\s*(\d{1,2})(?:st|nd|rd|th)?\b,?\s*(\d{4})?/);
+  // Day first: "7 Oct", "7th October 2026"
+  const dayFirst = withoutWeekday.match(/^(\d{1,2})(?:st|nd|rd|th)?\s*[-\s]?\s*([A-Za-z]+)\.?,?\s*[-\s]?\s*(\d{4})?/);
+
+  if (monthFirst && parseMonthName(monthFirst[1]) !== null) {
+    month = parseMonthName(monthFirst[1]);
+    day = Number(monthFirst[2]);
+    year = monthFirst[3] ? Number(monthFirst[3]) : null;
+  } else if (dayFirst && parseMonthName(dayFirst[2]) !== null) {
+    month = parseMonthName(dayFirst[2]);
+    day = Number(dayFirst[1]);
+    year = dayFirst[3] ? Number(dayFirst[3]) : null;
+  }
+
+  if (month === null || day === null) {
+    return null;
+  }
+
+  return makeDate(year ?? inferYear(month, day, term), month, day);
+};
+
+/**
+ * List every day between start and end (inclusive)
+ */
+export const enumerateDates = (start: Date, end: Date): Date[] => {
+  const dates: Date[] = [];
+  const current = startOfDay(start);
+  const last = startOfDay(end);
+
+  while (current <= last) {
+    dates.push(new Date(current));
+    current.setDate(current.getDate() + 1);
+  }
+  return dates;
+};
+
+/**
+ * Build the calendar range: the academic term, widened to cover any parsed sheet dates
+ * that fall outside it (e.g. an exam week scheduled after the term ends)
+ */
+export const getScheduleDateRange = (term: AcademicTerm, schedule: DaySchedule[] = []): Date[] => {
+  let start = startOfDay(term.start);
+  let end = startOfDay(term.end);
+
+  schedule.forEach((day) => {
+    const date = startOfDay(day.dateObj);
+    if (date < start) start = date;
+    if (date > end) end = date;
+  });
+
+  // Guard against a runaway range from a badly parsed date
+  if ((end.getTime() - start.getTime()) / DAY_MS > 730) {
+    return enumerateDates(term.start, term.end);
+  }
+
+  return enumerateDates(start, end);
+};
@@ -0,0 +1,110 @@
+// Helpers for HH:MM times of day as they appear in the sheet
+
+// 9:15, 09.15, 2:00 pm, 14:00
+const TIME_PATTERN = /(\d{1,2})[:.](\d{2})\s*([ap]\.?m\.?)?/i;
+
+/**
+ * Normalize a time cell to 24-hour "HH:MM", or null if it isn't a time
+ */
+export const normalizeTime = (text: string): string | null => {
+  const match = text.trim().match(new RegExp(`^${TIME_PATTERN.source}$`, 'i'));
+  if (!match) return null;
+
+  let hours = Number(match[1]);
+  const minutes = Number(match[2]);
+  const meridiem = match[3]?.toLowerCase().replace(/\./g, '');
+  if (meridiem === 'pm' && hours < 12) hours += 12;
+  if (meridiem === 'am' && hours === 12) hours = 0;
+  if (hours > 23 || minutes > 59) return null;
+
+  return `${String(hours).padStart(2, '0')}:${String(minutes).padStart(2, '0')}`;
+};
+
+/**
+ * Parse "09:15" or "09:15 - 10:45" into a start time and an optional end time
+ */
+export const parseTimeRange = (text: string): { start: string; end: string | null } | null => {
+  const [startText, endText] = text.split(/\s*(?:-|–|—|to)\s*/i);
+  const start = normalizeTime(startText ?? '');
+  if (!start) return null;
+  return { start, end: endText ? normalizeTime(endText) : null };
+};
+
+/**
+ * Shift an "HH:MM" time by a number of minutes (wraps past midnight)
+ */
+export const addMinutesToTime = (time: string, minutes: number): string => {
+  const [hours, mins] = time.split(':').map(Number);
+  const total = (((hours * 60 + mins + minutes) % 1440) + 1440) % 1440;
+  return `${String(Math.floor(total / 60)).padStart(2, '0')}:${String(total % 60).padStart(2, '0')}`;
+};
+
+/**
+ * Minutes from midnight, for comparing and sorting times
+ */
+export const timeToMinutes = (time: string): number => {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + minutes;
+};
+
+/**
+ * Pull a time override out of a class cell, e.g. "14:00 Guest Lecture" or
+ * "Guest Lecture (14:00-15:30)". Returns the remaining subject text.
+ */
+export const extractTimeOverride = (
+  cell: string
+): { subject: string; start: string; end: string | null } | null => {
+  const range = `(${TIME_PATTERN.source}(?:\\s*(?:-|–|to)\\s*${TIME_PATTERN.source})?)`;
+  const leading = cell.match(new RegExp(`^@?\\s*${range}\\s+(.+)$`, 'i'));
+  // The word boundary keeps a bare "14:00" from splitting into subject "1" at "4:00"
+  const trailing = cell.match(new RegExp(`^(.+?)\\s*[(\\[]?@?\\s*\\b${range}\\s*[)\\]]?$`, 'i'));
+
+  const [timeText, subject] = leading
+    ? [leading[1], leading[leading.length - 1]]
+    : trailing
+      ? [trailing[2], trailing[1]]
+      : [null, null];
+  if (!timeText || !subject) return null;
+
+  const parsed = parseTimeRange(timeText);
+  if (!parsed) return null;
+  return { subject: subject.trim().replace(/[-–:@,]+$/, '').trim(), ...parsed };
+};
+
+export type ClassStatus = 'past' | 'in-progress' | 'upcoming';
+
+/**
+ * Where a class on a given day stands relative to now. Progress runs from 0 to 1
+ * while the class is in progress.
+ */
+export const getClassTiming = (
+  date: Date,
+  startTime: string,
+  endTime: string,
+  now: Date = new Date()
+): { status: ClassStatus; progress: number; minutesToStart: number; minutesToEnd: number } => {
+  const start = new Date(date);
+  start.setHours(0, timeToMinutes(startTime), 0, 0);
+  const end = new Date(date);
+  end.setHours(0, timeToMinutes(endTime), 0, 0);
+  // Classes running past midnight end on the next day
+  if (end <= start) end.setDate(end.getDate() + 1);
+
+  const minutesToStart = Math.ceil((start.getTime() - now.getTime()) / 60000);
+  const minutesToEnd = Math.ceil((end.getTime() - now.getTime()) / 60000);
+
+  if (now < start) return { status: 'upcoming', progress: 0, minutesToStart, minutesToEnd };
+  if (now >= end) return { status: 'past', progress: 1, minutesToStart, minutesToEnd };
+  const progress = (now.getTime() - start.getTime()) / (end.getTime() - start.getTime());
+  return { status: 'in-progress', progress, minutesToStart, minutesToEnd };
+};
+
+/**
+ * "25 min", "1 h", "2 h 5 min"
+ */
+export const formatMinutes = (minutes: number): string => {
+  if (minutes < 60) return `${minutes} min`;
+  const hours = Math.floor(minutes / 60);
+  const rest = minutes % 60;
+  return rest === 0 ? `${hours} h` : `${hours} h ${rest} min`;
+};
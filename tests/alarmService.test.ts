@@ -0,0 +1,154 @@
+import 'fake-indexeddb/auto';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import {
+  AlarmSelection,
+  DAY_BEFORE_LEAD_MINUTES,
+  EMPTY_ALARM_OPT_OUTS,
+  buildUpcomingAlarms,
+  generateAlarmId,
+  generateReminderId,
+  getAllAlarmsFromDB,
+  isClassAlarmEnabled,
+  notifyAlarmScheduleChanges,
+  reconcileAlarms,
+  reconcileTimetableAlarms,
+  remapAlarmOptOuts,
+} from '../services/alarmService';
+import { ScheduleChange } from '../types';
+import { day } from './helpers';
+
+// Monday 6 Oct 2025, 08:00
+const NOW = new Date(2025, 9, 6, 8, 0);
+const MONDAY = new Date(2025, 9, 6);
+const TUESDAY = new Date(2025, 9, 7);
+
+const selection = (overrides: Partial<AlarmSelection> = {}): AlarmSelection => ({
+  masterAlarmEnabled: true,
+  enabledAlarms: new Set(),
+  optOuts: EMPTY_ALARM_OPT_OUTS,
+  reminderSettings: { offsets: [10], examOffsets: null, assessmentDayBefore: false },
+  ...overrides,
+});
+
+const ids = (alarms: { id: string }[]) => alarms.map((alarm) => alarm.id).sort();
+
+describe('buildUpcomingAlarms', () => {
+  const schedule = [day(MONDAY, ['Macro', 'HRM']), day(TUESDAY, ['DEM Quiz 1'])];
+  schedule[0].slots[0].startTime = '07:30'; // Already started at NOW
+
+  it('adds a reminder per lead time for every upcoming class', () => {
+    const alarms = buildUpcomingAlarms(schedule, selection({
+      reminderSettings: { offsets: [10, 30], examOffsets: null, assessmentDayBefore: false },
+    }), NOW);
+
+    const hrm = generateAlarmId(MONDAY, '09:15', 'HRM');
+    const quiz = generateAlarmId(TUESDAY, '09:15', 'DEM Quiz 1');
+    expect(ids(alarms)).toEqual([
+      generateReminderId(hrm, 10),
+      generateReminderId(hrm, 30),
+      generateReminderId(quiz, 10),
+      generateReminderId(quiz, 30),
+    ].sort());
+    expect(alarms.find((alarm) => alarm.subject === 'HRM' && alarm.leadMinutes === 30)?.alarmTime)
+      .toEqual(new Date(2025, 9, 6, 8, 45));
+  });
+
+  it('respects individual picks and opt-outs', () => {
+    const hrm = generateAlarmId(MONDAY, '09:15', 'HRM');
+
+    expect(buildUpcomingAlarms(schedule, selection({ masterAlarmEnabled: false }), NOW)).toEqual([]);
+    expect(buildUpcomingAlarms(schedule, selection({ masterAlarmEnabled: false, enabledAlarms: new Set([hrm]) }), NOW)
+      .map((alarm) => alarm.classId)).toEqual([hrm]);
+    expect(buildUpcomingAlarms(schedule, selection({ optOuts: { ...EMPTY_ALARM_OPT_OUTS, subjects: ['HRM'] } }), NOW)
+      .map((alarm) => alarm.subject)).toEqual(['DEM Quiz 1']);
+  });
+
+  it('adds the day-before assessment reminder on its own, but not once it has passed', () => {
+    const settings = { offsets: [10], examOffsets: null, assessmentDayBefore: true };
+
+    const alarms = buildUpcomingAlarms(schedule, selection({ masterAlarmEnabled: false, reminderSettings: settings }), NOW);
+    expect(alarms.map((alarm) => [alarm.subject, alarm.leadMinutes])).toEqual([['DEM Quiz 1', DAY_BEFORE_LEAD_MINUTES]]);
+
+    const later = new Date(2025, 9, 6, 10, 0);
+    expect(buildUpcomingAlarms(schedule, selection({ masterAlarmEnabled: false, reminderSettings: settings }), later)).toEqual([]);
+  });
+});
+
+describe('reconcileAlarms', () => {
+  const postMessage = vi.fn();
+
+  beforeEach(() => {
+    vi.useFakeTimers({ toFake: ['setTimeout', 'clearTimeout'] });
+    vi.stubGlobal('navigator', { serviceWorker: { controller: { postMessage } } });
+  });
+
+  afterEach(async () => {
+    await reconcileAlarms([]);
+    vi.clearAllTimers();
+    vi.useRealTimers();
+    vi.unstubAllGlobals();
+    postMessage.mockReset();
+  });
+
+  const term = Array.from({ length: 60 }, (_, i) => day(new Date(2099, 0, 1 + i), ['Macro', 'HRM', 'BA']));
+
+  it('stores a whole term of reminders and wakes the service worker once', async () => {
+    const desired = buildUpcomingAlarms(term, selection(), NOW);
+
+    await reconcileAlarms(desired);
+
+    expect(desired).toHaveLength(180);
+    expect(ids(await getAllAlarmsFromDB())).toEqual(ids(desired));
+    expect(postMessage.mock.calls).toEqual([[{ type: 'CHECK_ALARMS' }]]);
+  });
+
+  it('only adds and removes what changed', async () => {
+    const desired = buildUpcomingAlarms(term, selection(), NOW);
+    await reconcileAlarms(desired);
+    postMessage.mockClear();
+
+    const withoutHrm = buildUpcomingAlarms(term, selection({ optOuts: { ...EMPTY_ALARM_OPT_OUTS, subjects: ['HRM'] } }), NOW);
+    await reconcileAlarms(withoutHrm);
+
+    expect(ids(await getAllAlarmsFromDB())).toEqual(ids(withoutHrm));
+    expect(postMessage).not.toHaveBeenCalled();
+  });
+
+  it('leaves stored alarms alone when no timetable loaded', async () => {
+    const desired = buildUpcomingAlarms(term, selection(), NOW);
+    await reconcileAlarms(desired);
+
+    // A failed first load or a sheet that parsed to nothing leaves the timetable empty
+    await reconcileTimetableAlarms([], selection(), NOW);
+
+    expect(ids(await getAllAlarmsFromDB())).toEqual(ids(desired));
+  });
+});
+
+describe('schedule changes and opt-outs', () => {
+  const moved: ScheduleChange = { type: 'rescheduled', subject: 'Macro', date: TUESDAY, time: '11:00', previousDate: MONDAY, previousTime: '09:15' };
+  const previousId = generateAlarmId(MONDAY, '09:15', 'Macro');
+  const muted = selection({ optOuts: { ...EMPTY_ALARM_OPT_OUTS, classes: [previousId] } });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('keeps a muted class muted after it moves', () => {
+    const optOuts = remapAlarmOptOuts(muted.optOuts, [moved]);
+
+    expect(optOuts.classes).toEqual([generateAlarmId(TUESDAY, '11:00', 'Macro')]);
+    expect(isClassAlarmEnabled(optOuts.classes[0], TUESDAY, 'Macro', { ...muted, optOuts })).toBe(false);
+  });
+
+  it("doesn't notify about a muted class", async () => {
+    const postMessage = vi.fn();
+    vi.stubGlobal('navigator', { serviceWorker: { controller: { postMessage } } });
+    const isAlarmSet = (selected: AlarmSelection) => (alarmId: string, change: ScheduleChange) =>
+      isClassAlarmEnabled(alarmId, change.previousDate ?? change.date, change.subject, selected);
+
+    expect(await notifyAlarmScheduleChanges([moved], isAlarmSet(muted))).toEqual([]);
+    expect(await notifyAlarmScheduleChanges([moved], isAlarmSet(selection()))).toEqual([moved]);
+    expect(postMessage).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,33 @@
+import { describe, expect, it } from 'vitest';
+import { ALARM_LEAD_MINUTES, AlarmInfo, StoredAlarm, fromStoredAlarm, toStoredAlarm } from '../services/alarmStore';
+
+describe('stored alarms', () => {
+  it('round-trips through the stored shape', () => {
+    const alarm: AlarmInfo = {
+      id: '2025-10-06-11:00-Macro-30m',
+      classId: '2025-10-06-11:00-Macro',
+      time: '11:00',
+      subject: 'Macro',
+      date: new Date(2025, 9, 6),
+      leadMinutes: 30,
+      alarmTime: new Date(2025, 9, 6, 10, 30),
+      enabled: true,
+    };
+
+    expect(typeof toStoredAlarm(alarm).alarmTime).toBe('string');
+    expect(fromStoredAlarm(toStoredAlarm(alarm))).toEqual(alarm);
+  });
+
+  it('fills in class ID and lead time for alarms saved before multiple reminders', () => {
+    const legacy = {
+      id: '2025-10-06-11:00-Macro',
+      time: '11:00',
+      subject: 'Macro',
+      date: '2025-10-06T00:00:00.000Z',
+      alarmTime: '2025-10-06T10:50:00.000Z',
+      enabled: true,
+    } as StoredAlarm;
+
+    expect(fromStoredAlarm(legacy)).toMatchObject({ classId: legacy.id, leadMinutes: ALARM_LEAD_MINUTES });
+  });
+});
@@ -0,0 +1,34 @@
+import { describe, expect, it } from 'vitest';
+import {
+  GENERAL_ASSESSMENT_COURSE,
+  getAssessmentCourse,
+  getUpcomingAssessments,
+  groupAssessmentsByCourse,
+} from '../services/assessmentService';
+import { day } from './helpers';
+
+describe('getAssessmentCourse', () => {
+  it('strips the assessment wording from the subject', () => {
+    expect(getAssessmentCourse('DEM Quiz 1')).toBe('DEM');
+    expect(getAssessmentCourse('Macro Mid Term Exam')).toBe('Macro');
+    expect(getAssessmentCourse('End Term Exam')).toBe(GENERAL_ASSESSMENT_COURSE);
+  });
+});
+
+describe('getUpcomingAssessments', () => {
+  it('counts days remaining and skips finished assessments', () => {
+    const now = new Date(2025, 9, 8, 12, 0);
+    const schedule = [
+      day(new Date(2025, 9, 8), ['HRM Quiz 1']),
+      day(new Date(2025, 9, 9), ['DEM Quiz 1', 'Macro']),
+      day(new Date(2025, 9, 20), ['DEM Quiz 2']),
+    ];
+
+    const assessments = getUpcomingAssessments(schedule, now);
+    expect(assessments.map((a) => [a.slot.subject, a.daysRemaining])).toEqual([
+      ['DEM Quiz 1', 1],
+      ['DEM Quiz 2', 12],
+    ]);
+    expect(groupAssessmentsByCourse(assessments).map((g) => [g.course, g.assessments.length])).toEqual([['DEM', 2]]);
+  });
+});
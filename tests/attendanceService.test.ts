@@ -0,0 +1,47 @@
+import { describe, expect, it } from 'vitest';
+import { AttendanceRecord, AttendanceStatus, getCourseAttendance } from '../services/attendanceService';
+import { generateAlarmId } from '../services/alarmService';
+import { DaySchedule } from '../types';
+import { day } from './helpers';
+
+// Eight weekdays from Mon 6 Oct 2025, each with Macro, BA and (Mondays) HRM
+const schedule: DaySchedule[] = Array.from({ length: 8 }, (_, i) => {
+  const date = new Date(2025, 9, 6 + i);
+  return day(date, date.getDay() === 1 ? ['Macro', 'BA', 'HRM'] : ['Macro', 'BA']);
+});
+
+const mark = (marks: [number, string, AttendanceStatus][]): Map<string, AttendanceRecord> => {
+  const records = new Map<string, AttendanceRecord>();
+  marks.forEach(([dayIndex, subject, status]) => {
+    const date = schedule[dayIndex].dateObj;
+    const id = generateAlarmId(date, '09:15', subject);
+    records.set(id, { id, status, subject, date, time: '09:15', markedAt: date });
+  });
+  return records;
+};
+
+describe('getCourseAttendance', () => {
+  const now = new Date(2025, 9, 20);
+
+  it('computes percentages and warns near or below the minimum', () => {
+    const records = mark([
+      [0, 'Macro', 'attended'], [1, 'Macro', 'attended'], [2, 'Macro', 'missed'],
+      [3, 'Macro', 'attended'], [4, 'Macro', 'cancelled'],
+      [0, 'BA', 'attended'], [1, 'BA', 'missed'],
+      [0, 'HRM', 'attended'],
+    ]);
+    const byCourse = Object.fromEntries(getCourseAttendance(records, schedule, 75, now).map((c) => [c.course, c]));
+
+    expect(byCourse['BA']).toMatchObject({ percent: 50, level: 'danger' });
+    // 3 of 4 counted classes; 7 sessions after the cancellation allow only one absence
+    expect(byCourse['Macro']).toMatchObject({ attended: 3, missed: 1, cancelled: 1, percent: 75, canMiss: 0, level: 'warning' });
+    expect(byCourse['HRM']).toMatchObject({ percent: 100, level: 'ok' });
+  });
+
+  it('lists unmarked courses without a percentage', () => {
+    const courses = getCourseAttendance(new Map(), schedule, 75, now);
+
+    expect(courses.map((c) => c.course)).toEqual(['BA', 'HRM', 'Macro']);
+    expect(courses.every((c) => c.percent === null && c.level === 'ok')).toBe(true);
+  });
+});
@@ -0,0 +1,122 @@
+import 'fake-indexeddb/auto';
+import { readFileSync } from 'node:fs';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import {
+  clearPendingScheduleChanges,
+  getPendingScheduleChanges,
+  planAlarmUpdates,
+  refreshTimetableInBackground,
+  saveBackgroundSyncConfig,
+} from '../services/backgroundSyncService';
+import { generateAlarmId, generateReminderId, getAllAlarmsFromDB, writeAlarmsToDB } from '../services/alarmService';
+import { AlarmInfo } from '../services/alarmStore';
+import { getCachedTimetable, saveTimetableToCache } from '../services/cacheService';
+import { DEFAULT_BATCH, getBatchId } from '../services/programmeService';
+import { fetchTimetable } from '../services/sheetService';
+import { createTimetableSource } from '../services/sourceService';
+import { getAcademicTerm } from '../services/termService';
+import { ScheduleChange, TimetableSourceConfig } from '../types';
+
+const NOW = new Date(2025, 9, 6, 8, 0);
+const MONDAY = new Date(2025, 9, 6);
+const TUESDAY = new Date(2025, 9, 7);
+
+const alarmFor = (date: Date, time: string, subject: string, leadMinutes: number): AlarmInfo => {
+  const classId = generateAlarmId(date, time, subject);
+  const [hours, minutes] = time.split(':').map(Number);
+  const alarmTime = new Date(date);
+  alarmTime.setHours(hours, minutes - leadMinutes);
+  return { id: generateReminderId(classId, leadMinutes), classId, time, subject, date, leadMinutes, alarmTime, enabled: true };
+};
+
+describe('planAlarmUpdates', () => {
+  it('moves every reminder of a rescheduled class and drops removed classes', () => {
+    const macro10 = alarmFor(MONDAY, '11:00', 'Macro', 10);
+    const macro30 = alarmFor(MONDAY, '11:00', 'Macro', 30);
+    const hrm = alarmFor(MONDAY, '15:15', 'HRM', 10);
+    const untouched = alarmFor(TUESDAY, '09:15', 'DEM', 10);
+    const changes: ScheduleChange[] = [
+      { type: 'rescheduled', subject: 'Macro', date: TUESDAY, time: '12:45', previousDate: MONDAY, previousTime: '11:00' },
+      { type: 'removed', subject: 'HRM', date: MONDAY, time: '15:15' },
+      { type: 'added', subject: 'CF', date: TUESDAY, time: '17:15' },
+    ];
+
+    const { updated, removedIds, affected } = planAlarmUpdates([macro10, macro30, hrm, untouched], changes, NOW);
+
+    expect(removedIds).toEqual([macro10.id, macro30.id, hrm.id]);
+    expect(updated.map((alarm) => alarm.id)).toEqual([
+      generateReminderId(generateAlarmId(TUESDAY, '12:45', 'Macro'), 10),
+      generateReminderId(generateAlarmId(TUESDAY, '12:45', 'Macro'), 30),
+    ]);
+    expect(updated[0].alarmTime).toEqual(new Date(2025, 9, 7, 12, 35));
+    expect(affected).toEqual(changes.slice(0, 2));
+  });
+
+  it('drops alarms for classes moved into the past', () => {
+    const alarm = alarmFor(TUESDAY, '09:15', 'DEM', 10);
+    const change: ScheduleChange = { type: 'rescheduled', subject: 'DEM', date: MONDAY, time: '07:00', previousDate: TUESDAY, previousTime: '09:15' };
+
+    expect(planAlarmUpdates([alarm], [change], NOW)).toEqual({ updated: [], removedIds: [alarm.id], affected: [change] });
+  });
+});
+
+describe('refreshTimetableInBackground', () => {
+  const sourceConfig: TimetableSourceConfig = { type: 'gviz', spreadsheetId: 'sheet-id', tabName: 'TimeTable' };
+  const source = createTimetableSource(sourceConfig);
+  const fixture = readFileSync(new URL('./fixtures/gviz/basic.txt', import.meta.url), 'utf-8');
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('caches the new timetable and keeps the changes until the app has shown them', async () => {
+    vi.stubGlobal('fetch', vi.fn(async () => new Response(fixture)));
+    const latest = await fetchTimetable('A', source, getAcademicTerm(NOW));
+    const [firstDay, ...otherDays] = latest;
+    const previous = [{ ...firstDay, slots: [{ ...firstDay.slots[0], startTime: '07:00' }, ...firstDay.slots.slice(1)] }, ...otherDays];
+    await saveTimetableToCache('A', previous, source.key);
+    await saveBackgroundSyncConfig({
+      source: sourceConfig,
+      batchId: getBatchId(DEFAULT_BATCH),
+      sections: [{ section: 'A', storageKey: 'A' }],
+    });
+
+    await refreshTimetableInBackground(true, NOW);
+
+    const moved = { subject: firstDay.slots[0].subject, date: firstDay.dateObj, previousTime: '07:00', time: firstDay.slots[0].startTime };
+    expect(await getPendingScheduleChanges('A', source.key)).toEqual([expect.objectContaining({ type: 'rescheduled', ...moved })]);
+    expect((await getCachedTimetable('A', source.key))?.data).toEqual(latest);
+
+    // Nothing new the second time: the cached copy already matches the sheet
+    await refreshTimetableInBackground(true, NOW);
+    expect(await getPendingScheduleChanges('A', source.key)).toHaveLength(1);
+    expect(await getPendingScheduleChanges('A', 'gviz:other/TimeTable')).toEqual([]);
+
+    await clearPendingScheduleChanges(['A']);
+    expect(await getPendingScheduleChanges('A', source.key)).toEqual([]);
+  });
+
+  it('diffs the subjects the student shows, matching alarms on combined cells', async () => {
+    vi.stubGlobal('fetch', vi.fn(async () => new Response(fixture)));
+    const latest = await fetchTimetable('A', source, getAcademicTerm(NOW));
+    const [firstDay, ...otherDays] = latest;
+    const elective = { startTime: '17:00', endTime: '18:30', slotIndex: 5, subject: 'CF/BA' };
+    await saveTimetableToCache('A', [{ ...firstDay, slots: [...firstDay.slots, elective] }, ...otherDays], source.key);
+    await saveBackgroundSyncConfig({
+      source: sourceConfig,
+      batchId: getBatchId(DEFAULT_BATCH),
+      sections: [{ section: 'A', storageKey: 'A', hiddenSubjects: ['BA'] }],
+    });
+    // Stored while BA was hidden, so the app showed the class as "CF"
+    const alarm = { ...alarmFor(firstDay.dateObj, '17:00', 'CF/BA', 10), subject: 'CF' };
+    await writeAlarmsToDB([alarm], []);
+
+    const affected = await refreshTimetableInBackground(true, NOW);
+
+    const removed = { type: 'removed', subject: 'CF', cellSubject: 'CF/BA', date: firstDay.dateObj, time: '17:00' };
+    expect(affected).toEqual([removed]);
+    expect(await getPendingScheduleChanges('A', source.key)).toEqual([removed]);
+    expect(await getAllAlarmsFromDB()).toEqual([]);
+    await clearPendingScheduleChanges(['A']);
+  });
+});
@@ -0,0 +1,86 @@
+import { describe, expect, it } from 'vitest';
+import { buildICalendar, generateEventUid, getExportedEvents } from '../services/calendarExportService';
+import { generateAlarmId } from '../services/alarmService';
+import { DaySchedule } from '../types';
+import { day } from './helpers';
+
+const GENERATED_AT = new Date(Date.UTC(2025, 9, 1, 12, 0));
+const REMINDERS = { offsets: [10, 30], examOffsets: null, assessmentDayBefore: false };
+
+const build = (schedule: DaySchedule[], includeAlarms = false, generatedAt = GENERATED_AT, previous: DaySchedule[] = []) =>
+  buildICalendar('A', schedule, { includeAlarms, reminderSettings: REMINDERS, previousEvents: getExportedEvents(previous) }, generatedAt);
+
+// Unfold continuation lines (RFC 5545 section 3.1) and split into content lines
+const contentLines = (ics: string): string[] => ics.replace(/\r\n /g, '').split('\r\n');
+
+const valuesOf = (ics: string, name: string): string[] =>
+  contentLines(ics).filter((line) => line.startsWith(`${name}:`)).map((line) => line.slice(name.length + 1));
+
+describe('generateEventUid', () => {
+  it('identifies a class the same way as its alarm', () => {
+    const date = new Date(2025, 9, 7);
+    expect(generateEventUid(date, '09:15', 'Macro')).toBe(`${generateAlarmId(date, '09:15', 'Macro')}@timetable.app`);
+  });
+});
+
+describe('buildICalendar', () => {
+  it('ends every line with CRLF and folds lines past 75 octets', () => {
+    const ics = build([day(new Date(2025, 9, 7), ['Strategic Management of Technology and Innovation in Emerging Markets'])]);
+
+    expect(ics.endsWith('END:VCALENDAR\r\n')).toBe(true);
+    expect(ics.replace(/\r\n/g, '')).not.toContain('\n');
+    ics.split('\r\n').forEach((line) => expect(new TextEncoder().encode(line).length).toBeLessThanOrEqual(75));
+    expect(valuesOf(ics, 'SUMMARY')).toEqual(['Strategic Management of Technology and Innovation in Emerging Markets']);
+  });
+
+  it('does not split multi-byte characters when folding', () => {
+    const subject = 'Économie appliquée — séminaire avancé sur les marchés émergents';
+    const ics = build([day(new Date(2025, 9, 7), [subject])]);
+
+    ics.split('\r\n').forEach((line) => expect(new TextEncoder().encode(line).length).toBeLessThanOrEqual(75));
+    expect(valuesOf(ics, 'SUMMARY')).toEqual([subject]);
+  });
+
+  it('escapes commas, semicolons, backslashes and newlines', () => {
+    const schedule = day(new Date(2025, 9, 7), ['CF, BA; Lab\\1']);
+    schedule.slots[0].notes = 'Bring laptop\nRoom change';
+
+    const ics = build([schedule]);
+
+    expect(valuesOf(ics, 'SUMMARY')).toEqual(['CF\\, BA\\; Lab\\\\1']);
+    expect(valuesOf(ics, 'DESCRIPTION')).toEqual(['Section A\\nBring laptop\\nRoom change']);
+  });
+
+  it('keeps the UID of an unchanged class and raises SEQUENCE on later exports', () => {
+    const schedule = [day(new Date(2025, 9, 7), ['Macro'])];
+
+    const first = build(schedule);
+    const second = build(schedule, false, new Date(GENERATED_AT.getTime() + 60 * 60000), schedule);
+
+    expect(valuesOf(second, 'UID')).toEqual(valuesOf(first, 'UID'));
+    expect(valuesOf(second, 'STATUS')).toEqual([]);
+    expect(Number(valuesOf(second, 'SEQUENCE')[0])).toBeGreaterThan(Number(valuesOf(first, 'SEQUENCE')[0]));
+  });
+
+  it('cancels the previous export\'s event for a class that moved', () => {
+    const original = day(new Date(2025, 9, 7), ['Macro']);
+    const retimed = day(new Date(2025, 9, 7), ['Macro']);
+    retimed.slots[0].startTime = '10:00';
+
+    const first = build([original]);
+    const second = build([retimed], false, new Date(GENERATED_AT.getTime() + 60 * 60000), [original]);
+
+    const [oldUid] = valuesOf(first, 'UID');
+    expect(valuesOf(second, 'UID')).toHaveLength(2);
+    expect(valuesOf(second, 'UID')[1]).toBe(oldUid);
+    expect(valuesOf(second, 'STATUS')).toEqual(['CANCELLED']);
+    expect(valuesOf(second, 'DTSTART')[1]).toBe(valuesOf(first, 'DTSTART')[0]);
+  });
+
+  it('adds one alarm per reminder when asked', () => {
+    const schedule = [day(new Date(2025, 9, 7), ['Macro'])];
+
+    expect(valuesOf(build(schedule), 'TRIGGER')).toEqual([]);
+    expect(valuesOf(build(schedule, true), 'TRIGGER')).toEqual(['-PT10M', '-PT30M']);
+  });
+});
@@ -0,0 +1,77 @@
+import { describe, expect, it } from 'vitest';
+import { describeScheduleChange, diffTimetables } from '../services/diffService';
+import { filterScheduleBySubjects } from '../services/subjectService';
+import { ScheduleChange } from '../types';
+import { day } from './helpers';
+
+const MONDAY = new Date(2025, 9, 6);
+const TUESDAY = new Date(2025, 9, 7);
+
+const simplify = (changes: ScheduleChange[]) =>
+  changes.map((change) => {
+    const moved = change.previousDate ? ` (was ${change.previousDate.getDate()} ${change.previousTime})` : '';
+    return `${change.type} ${change.subject} ${change.date.getDate()} ${change.time}${moved}`;
+  });
+
+describe('diffTimetables', () => {
+  it('reports nothing for identical timetables', () => {
+    expect(diffTimetables([day(MONDAY, ['Macro', 'HRM'])], [day(MONDAY, ['Macro', 'HRM'])])).toEqual([]);
+  });
+
+  it('reports a class that moved to another day as rescheduled', () => {
+    const changes = diffTimetables([day(MONDAY, ['Macro', 'HRM'])], [day(MONDAY, ['HRM']), day(TUESDAY, ['Macro'])]);
+
+    expect(simplify(changes)).toEqual(['rescheduled Macro 7 09:15 (was 6 09:15)']);
+  });
+
+  it('reports a retimed class as rescheduled on the same day', () => {
+    const next = day(MONDAY, ['Macro']);
+    next.slots[0].startTime = '11:00';
+
+    expect(simplify(diffTimetables([day(MONDAY, ['Macro'])], [next]))).toEqual(['rescheduled Macro 6 11:00 (was 6 09:15)']);
+  });
+
+  it('reports classes with no counterpart as added or removed, in time order', () => {
+    const changes = diffTimetables([day(TUESDAY, ['HRM']), day(MONDAY, ['Macro'])], [day(MONDAY, ['Macro', 'CF'])]);
+
+    expect(simplify(changes)).toEqual(['added CF 6 09:15', 'removed HRM 7 09:15']);
+  });
+
+  it('pairs repeated sessions of a subject in chronological order', () => {
+    const previous = [day(MONDAY, ['Macro']), day(TUESDAY, ['Macro'])];
+    const next = [day(new Date(2025, 9, 8), ['Macro']), day(new Date(2025, 9, 9), ['Macro'])];
+
+    expect(simplify(diffTimetables(previous, next))).toEqual([
+      'rescheduled Macro 8 09:15 (was 6 09:15)',
+      'rescheduled Macro 9 09:15 (was 7 09:15)',
+    ]);
+  });
+
+  it('treats subjects as case-sensitive text from the sheet', () => {
+    const changes = diffTimetables([day(MONDAY, ['Macro'])], [day(MONDAY, ['MACRO'])]);
+
+    expect(changes.map((change) => change.type).sort()).toEqual(['added', 'removed']);
+  });
+
+  it('matches combined cells by the whole cell, whichever of their subjects are shown', () => {
+    const before = filterScheduleBySubjects([day(MONDAY, ['CF/BA'])], []);
+    const after = filterScheduleBySubjects([day(TUESDAY, ['CF/BA'])], ['BA']);
+
+    expect(diffTimetables(before, filterScheduleBySubjects([day(MONDAY, ['CF/BA'])], ['BA']))).toEqual([]);
+    expect(diffTimetables(before, after)).toEqual([{
+      type: 'rescheduled', subject: 'CF', cellSubject: 'CF/BA', date: TUESDAY, time: '09:15', previousDate: MONDAY, previousTime: '09:15',
+    }]);
+  });
+});
+
+describe('describeScheduleChange', () => {
+  it('describes each kind of change in one line', () => {
+    const [rescheduled] = diffTimetables([day(MONDAY, ['Macro'])], [day(TUESDAY, ['Macro'])]);
+
+    expect(describeScheduleChange(rescheduled)).toBe('Macro moved from Mon, Oct 6 09:15 to Tue, Oct 7 09:15');
+    expect(describeScheduleChange({ type: 'removed', subject: 'HRM', date: MONDAY, time: '15:15' }))
+      .toBe('HRM on Mon, Oct 6 at 15:15 was removed');
+    expect(describeScheduleChange({ type: 'added', subject: 'CF', date: TUESDAY, time: '11:00' }))
+      .toBe('CF added on Tue, Oct 7 at 11:00');
+  });
+});
@@ -0,0 +1,63 @@
+import { describe, expect, it, vi } from 'vitest';
+import {
+  TimetableError,
+  describeTimetableError,
+  httpStatusError,
+  isConnectionError,
+  retryWithBackoff,
+} from '../services/errorService';
+
+describe('httpStatusError', () => {
+  it('separates refused requests from transient server failures', () => {
+    expect(httpStatusError(403, 'sheet')).toMatchObject({ kind: 'not-shared', transient: false });
+    expect(httpStatusError(503, 'sheet')).toMatchObject({ kind: 'network', transient: true });
+    expect(httpStatusError(400, 'sheet')).toMatchObject({ kind: 'network', transient: false });
+  });
+});
+
+describe('isConnectionError', () => {
+  it('only counts connection trouble, not problems with the sheet', () => {
+    expect(isConnectionError(new TimetableError('offline', 'offline'))).toBe(true);
+    expect(isConnectionError(new TimetableError('network', 'timed out'))).toBe(true);
+    expect(isConnectionError(new TimetableError('not-shared', 'refused'))).toBe(false);
+    expect(isConnectionError(new TimetableError('tab-not-found', 'no tab'))).toBe(false);
+    expect(isConnectionError(new TimetableError('layout', 'no dates'))).toBe(false);
+    expect(isConnectionError(new Error('boom'))).toBe(false);
+  });
+});
+
+describe('retryWithBackoff', () => {
+  it('retries transient failures until a request succeeds', async () => {
+    const request = vi.fn()
+      .mockRejectedValueOnce(new TypeError('Failed to fetch'))
+      .mockRejectedValueOnce(httpStatusError(502, 'sheet'))
+      .mockResolvedValue([['Week']]);
+
+    await expect(retryWithBackoff(request, undefined, 3, 0)).resolves.toEqual([['Week']]);
+    expect(request).toHaveBeenCalledTimes(3);
+  });
+
+  it('gives up at once on failures a retry cannot fix', async () => {
+    const request = vi.fn().mockRejectedValue(new TimetableError('tab-not-found', 'Invalid sheet TimeTable'));
+
+    await expect(retryWithBackoff(request, undefined, 3, 0)).rejects.toMatchObject({ kind: 'tab-not-found' });
+    expect(request).toHaveBeenCalledTimes(1);
+  });
+
+  it('stops waiting when the request is aborted', async () => {
+    const controller = new AbortController();
+    const request = vi.fn().mockRejectedValue(new TypeError('Failed to fetch'));
+
+    const result = retryWithBackoff(request, controller.signal, 3, 60_000);
+    controller.abort();
+    await expect(result).rejects.toMatchObject({ name: 'AbortError' });
+    expect(request).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe('describeTimetableError', () => {
+  it('gives an actionable message for each kind of failure', () => {
+    expect(describeTimetableError(new TimetableError('not-shared', 'refused')).message).toMatch(/Anyone with the link/);
+    expect(describeTimetableError(new Error('Boom'))).toEqual({ title: 'Sync Error', message: 'Boom' });
+  });
+});
@@ -0,0 +1,13 @@
+// Fixture builders shared by the service tests
+
+import { DaySchedule } from '../types';
+
+/**
+ * A day with one 09:15-10:45 slot per subject, in slot column order
+ */
+export const day = (date: Date, subjects: string[]): DaySchedule => ({
+  dateObj: date,
+  dateStr: date.toDateString(),
+  dayStr: '',
+  slots: subjects.map((subject, slotIndex) => ({ startTime: '09:15', endTime: '10:45', slotIndex, subject })),
+});
@@ -0,0 +1,55 @@
+import { describe, expect, it } from 'vitest';
+import { findClashingSlots, mergeSectionTimetables } from '../services/mergeService';
+import { DaySchedule, TimeSlot } from '../types';
+
+const slot = (startTime: string, endTime: string, subject: string): TimeSlot => ({ startTime, endTime, slotIndex: 0, subject });
+
+const day = (date: Date, slots: TimeSlot[]): DaySchedule => ({
+  dateObj: date,
+  dateStr: date.toDateString(),
+  dayStr: '',
+  slots,
+});
+
+describe('mergeSectionTimetables', () => {
+  it('merges days across sections in time order and tags each slot', () => {
+    const merged = mergeSectionTimetables([
+      { section: 'A', data: [day(new Date(2025, 9, 7), [slot('11:00', '12:30', 'HRM')])] },
+      {
+        section: 'B',
+        data: [
+          day(new Date(2025, 9, 8), [slot('09:00', '10:30', 'WC')]),
+          day(new Date(2025, 9, 7), [slot('09:00', '10:30', 'CF')]),
+        ],
+      },
+    ]);
+
+    expect(merged.map((d) => d.dateObj.getDate())).toEqual([7, 8]);
+    expect(merged[0].slots.map((s) => `${s.section} ${s.startTime} ${s.subject}`)).toEqual(['B 09:00 CF', 'A 11:00 HRM']);
+  });
+
+  it('keeps a class listed by two sections at the same time once', () => {
+    const shared = [day(new Date(2025, 9, 7), [slot('09:15', '10:45', 'Guest Lecture')])];
+    const merged = mergeSectionTimetables([{ section: 'A', data: shared }, { section: 'D', data: shared }]);
+
+    expect(merged[0].slots).toHaveLength(1);
+    expect(merged[0].slots[0].section).toBe('A');
+  });
+});
+
+describe('findClashingSlots', () => {
+  it('flags A/D/E and B/C slots that overlap', () => {
+    const slots = [
+      slot('09:00', '10:30', 'CF'),
+      slot('09:15', '10:45', 'Macro'),
+      slot('10:45', '12:15', 'WC'),
+      slot('12:45', '14:15', 'OAD'),
+    ];
+
+    expect(Array.from(findClashingSlots(slots)).sort()).toEqual([0, 1]);
+  });
+
+  it('does not flag back-to-back classes', () => {
+    expect(findClashingSlots([slot('09:15', '10:45', 'Macro'), slot('10:45', '12:15', 'HRM')]).size).toBe(0);
+  });
+});
@@ -0,0 +1,43 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_BATCH, findBatch, getSectionStorageKey, getSectionTemplate, isKnownSection } from '../services/programmeService';
+import { BatchConfig, ProgrammeConfig } from '../types';
+
+const BATCH: BatchConfig = {
+  id: 'pgp-2026',
+  name: 'PGP 2026',
+  slotTimes: ['09:00', '11:00'],
+  classDurationMinutes: 75,
+  sections: [
+    { id: 'A', startColumn: 3 },
+    { id: 'B', startColumn: 5, slotTimes: ['10:00', '12:00'], classDurationMinutes: 90 },
+  ],
+};
+const PROGRAMME: ProgrammeConfig = { id: 'pgp', name: 'PGP', batches: [BATCH] };
+
+describe('getSectionTemplate', () => {
+  it('fills in the batch defaults for anything a section leaves out', () => {
+    expect(getSectionTemplate(BATCH, 'A')).toEqual({ startColumn: 3, slotTimes: ['09:00', '11:00'], classDurationMinutes: 75 });
+    expect(getSectionTemplate(BATCH, 'B')).toEqual({ startColumn: 5, slotTimes: ['10:00', '12:00'], classDurationMinutes: 90 });
+    expect(getSectionTemplate(BATCH, 'F').startColumn).toBeUndefined();
+  });
+});
+
+describe('isKnownSection', () => {
+  it('accepts configured sections, or any section letter when they come from the sheet', () => {
+    expect(isKnownSection(BATCH, 'B')).toBe(true);
+    expect(isKnownSection(BATCH, 'E')).toBe(false);
+    expect(isKnownSection({ ...BATCH, sections: undefined }, 'G')).toBe(true);
+    expect(isKnownSection({ ...BATCH, sections: undefined }, 'Section G')).toBe(false);
+    expect(isKnownSection(BATCH, null)).toBe(false);
+  });
+});
+
+describe('batch ids and storage keys', () => {
+  it('finds batches by id and keeps the default batch on bare section keys', () => {
+    expect(findBatch('pgp/pgp-2026', [PROGRAMME])).toEqual({ programme: PROGRAMME, batch: BATCH });
+    expect(findBatch('pgp/missing', [PROGRAMME])).toBeNull();
+
+    expect(getSectionStorageKey(DEFAULT_BATCH, 'A')).toBe('A');
+    expect(getSectionStorageKey({ programme: PROGRAMME, batch: BATCH }, 'A')).toBe('pgp/pgp-2026:A');
+  });
+});
@@ -0,0 +1,64 @@
+import { describe, expect, it } from 'vitest';
+import { EMPTY_SEARCH_FILTERS, searchSchedule } from '../services/searchService';
+import { generateAlarmId } from '../services/alarmService';
+import { ClassNote } from '../services/notesService';
+import { DaySchedule } from '../types';
+
+const day = (date: Date, subjects: [string, string][]): DaySchedule => ({
+  dateObj: date,
+  dateStr: date.toDateString(),
+  dayStr: '',
+  slots: subjects.map(([startTime, subject], slotIndex) => ({ startTime, endTime: '23:00', slotIndex, subject })),
+});
+
+// Wednesday 8 Oct 2025, 12:00
+const NOW = new Date(2025, 9, 8, 12, 0);
+
+const schedule = [
+  day(new Date(2025, 9, 20), [['09:15', 'HRM'], ['11:00', 'DEM Quiz 1']]),
+  day(new Date(2025, 9, 6), [['11:00', 'HRM'], ['09:15', 'Macro']]),
+  day(new Date(2025, 9, 9), [['09:15', 'hrm case']]),
+];
+
+const describeResults = (results: ReturnType<typeof searchSchedule>) =>
+  results.map(({ day, slot }) => `${day.dateObj.getDate()} ${slot.startTime} ${slot.subject}`);
+
+describe('searchSchedule', () => {
+  it('matches every word case-insensitively in date and time order', () => {
+    expect(describeResults(searchSchedule(schedule, 'hrm', EMPTY_SEARCH_FILTERS, NOW))).toEqual([
+      '6 11:00 HRM',
+      '9 09:15 hrm case',
+      '20 09:15 HRM',
+    ]);
+    expect(describeResults(searchSchedule(schedule, 'quiz dem', EMPTY_SEARCH_FILTERS, NOW))).toEqual(['20 11:00 DEM Quiz 1']);
+  });
+
+  it('applies the quick filters', () => {
+    expect(describeResults(searchSchedule(schedule, '', { ...EMPTY_SEARCH_FILTERS, examsOnly: true }, NOW))).toEqual([
+      '20 11:00 DEM Quiz 1',
+    ]);
+    expect(describeResults(searchSchedule(schedule, 'hrm', { ...EMPTY_SEARCH_FILTERS, upcomingOnly: true }, NOW))).toEqual([
+      '9 09:15 hrm case',
+      '20 09:15 HRM',
+    ]);
+    expect(describeResults(searchSchedule(schedule, '', { ...EMPTY_SEARCH_FILTERS, thisWeek: true }, NOW))).toEqual([
+      '6 09:15 Macro',
+      '6 11:00 HRM',
+      '9 09:15 hrm case',
+    ]);
+  });
+
+  it('matches words in class notes and tasks', () => {
+    const date = new Date(2025, 9, 6);
+    const id = generateAlarmId(date, '09:15', 'Macro');
+    const note: ClassNote = {
+      id, subject: 'Macro', date, time: '09:15', text: 'Case reading pp. 12-30',
+      tasks: [{ text: 'Bring calculator', done: false }], updatedAt: date,
+    };
+    const notes = new Map([[id, note]]);
+
+    expect(describeResults(searchSchedule(schedule, 'calculator', EMPTY_SEARCH_FILTERS, NOW, notes))).toEqual(['6 09:15 Macro']);
+    expect(describeResults(searchSchedule(schedule, 'macro case', EMPTY_SEARCH_FILTERS, NOW, notes))).toEqual(['6 09:15 Macro']);
+    expect(searchSchedule(schedule, 'calculator', EMPTY_SEARCH_FILTERS, NOW)).toEqual([]);
+  });
+});
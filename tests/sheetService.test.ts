@@ -0,0 +1,314 @@
+import { readFileSync } from 'fs';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import {
+  applySubjectDetails,
+  detectSectionLayouts,
+  getSheetSections,
+  parseGvizResponse,
+  parseSubjectDetails,
+  parseTimetableRows,
+} from '../services/sheetService';
+import { toTimetableError } from '../services/errorService';
+import { getAcademicTerm } from '../services/termService';
+import { DaySchedule, Section } from '../types';
+
+// Recorded gviz responses live in tests/fixtures/gviz
+const loadFixture = (name: string): string => {
+  return readFileSync(new URL(`./fixtures/gviz/${name}`, import.meta.url), 'utf-8');
+};
+
+const parseFixture = (name: string, section: Section): DaySchedule[] => {
+  return parseTimetableRows(parseGvizResponse(loadFixture(name)), section, TERM);
+};
+
+// Oct 2025 - Mar 2026
+const TERM = getAcademicTerm(new Date(2025, 11, 1));
+
+const simplify = (schedule: DaySchedule[]) => {
+  return schedule.map((day) => ({
+    date: day.dateObj.toDateString(),
+    day: day.dayStr,
+    slots: day.slots.map((slot) => `${slot.startTime} ${slot.subject}`),
+  }));
+};
+
+beforeEach(() => {
+  // The parser logs progress; keep test output readable
+  vi.spyOn(console, 'log').mockImplementation(() => {});
+  vi.spyOn(console, 'error').mockImplementation(() => {});
+  vi.spyOn(console, 'warn').mockImplementation(() => {});
+});
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+describe('parseGvizResponse', () => {
+  it('unwraps the JSONP response into rows of strings', () => {
+    const rows = parseGvizResponse(loadFixture('basic.txt'));
+
+    expect(rows[1][3]).toBe('Section A');
+    expect(rows[2].slice(0, 4)).toEqual(['Week', 'Date', 'Day', '09:15']);
+  });
+
+  it('prefers the formatted value over the raw value', () => {
+    const rows = parseGvizResponse(loadFixture('basic.txt'));
+    const dateCells = rows.map((row) => row[1]);
+
+    expect(dateCells).toContain('Dec 30');
+    expect(dateCells).toContain('3-Mar');
+    expect(dateCells).not.toContain('Date(2025,11,30)');
+  });
+
+  it('turns null cells and rows without cells into empty values', () => {
+    const rows = parseGvizResponse(loadFixture('missing-day-column.txt'));
+
+    expect(rows[3]).toEqual(['', 'Nov 3', '', 'Macro', 'HRM']);
+    expect(rows[5]).toEqual([]);
+  });
+
+  it('rejects a response with error status', () => {
+    expect(() => parseGvizResponse(loadFixture('error-status.txt'))).toThrow('Sheet API returned error status: Invalid sheet TimeTable');
+    expect(() => parseGvizResponse(loadFixture('error-status.txt'))).toThrow(expect.objectContaining({ kind: 'tab-not-found' }));
+  });
+
+  it('rejects a response without table data', () => {
+    expect(() => parseGvizResponse(loadFixture('missing-table.txt'))).toThrow('Sheet response missing table data');
+  });
+
+  it('rejects an HTML page instead of JSONP', () => {
+    expect(() => parseGvizResponse(loadFixture('sign-in-page.html'))).toThrow('Invalid sheet response format');
+    expect(() => parseGvizResponse(loadFixture('sign-in-page.html'))).toThrow(expect.objectContaining({ kind: 'not-shared' }));
+  });
+
+  it('rejects a truncated response as a dropped connection worth retrying', () => {
+    ['truncated.txt', 'truncated-before-callback.txt'].forEach((name) => {
+      expect(() => parseGvizResponse(loadFixture(name))).toThrow(SyntaxError);
+    });
+    expect(() => parseGvizResponse('')).toThrow(SyntaxError);
+
+    let error: unknown;
+    try {
+      parseGvizResponse(loadFixture('truncated-before-callback.txt'));
+    } catch (err) {
+      error = toTimetableError(err);
+    }
+    expect(error).toMatchObject({ kind: 'network', transient: true });
+  });
+});
+
+describe('parseTimetableRows', () => {
+  it('reads each section from its own column block', () => {
+    expect(simplify(parseFixture('basic.txt', 'A'))).toEqual([
+      { date: 'Tue Oct 07 2025', day: 'Tue', slots: ['09:15 Macro', '11:00 HRM', '17:15 DEM Quiz 1'] },
+      { date: 'Tue Dec 30 2025', day: 'Tue', slots: ['09:15 OAD', '12:45 WC'] },
+      { date: 'Mon Jan 05 2026', day: 'Mon', slots: ['09:15 CF/BA', '11:00 Macro'] },
+      { date: 'Tue Mar 03 2026', day: 'Tue', slots: ['09:15 End Term Exam'] },
+    ]);
+  });
+
+  it('uses the B/C slot times for sections B and C', () => {
+    expect(simplify(parseFixture('basic.txt', 'B'))).toEqual([
+      { date: 'Tue Oct 07 2025', day: 'Tue', slots: ['09:00 CF/BA', '10:45 WC', '12:30 OAD', '18:30 Club Event'] },
+      { date: 'Wed Oct 08 2025', day: 'Wed', slots: ['09:00 Macro'] },
+    ]);
+    expect(simplify(parseFixture('basic.txt', 'C'))).toEqual([
+      { date: 'Mon Jan 05 2026', day: 'Mon', slots: ['09:00 HRM'] },
+    ]);
+  });
+
+  it('skips days where every slot is "-" or empty', () => {
+    const dates = parseFixture('basic.txt', 'A').map((day) => day.dateObj.toDateString());
+    expect(dates).not.toContain('Wed Oct 08 2025');
+  });
+
+  it('returns nothing for a section with no classes', () => {
+    expect(parseFixture('basic.txt', 'D')).toEqual([]);
+  });
+
+  it('keeps only the first cell of horizontally merged cells', () => {
+    expect(simplify(parseFixture('merged-cells.txt', 'A'))).toEqual([
+      { date: 'Tue Oct 14 2025', day: 'Tue', slots: ['09:15 Guest Lecture', '12:45 Macro'] },
+      { date: 'Wed Oct 15 2025', day: 'Wed', slots: ['09:15 HRM', '11:00 DEM'] },
+    ]);
+    expect(simplify(parseFixture('merged-cells.txt', 'B'))).toEqual([
+      { date: 'Tue Oct 14 2025', day: 'Tue', slots: ['09:00 Mid Term Exam'] },
+    ]);
+    // A cell merged across section blocks only belongs to the block it starts in
+    expect(parseFixture('merged-cells.txt', 'C')).toEqual([]);
+  });
+
+  it('handles missing day columns and short rows', () => {
+    expect(simplify(parseFixture('missing-day-column.txt', 'A'))).toEqual([
+      { date: 'Mon Nov 03 2025', day: '', slots: ['09:15 Macro', '11:00 HRM'] },
+      { date: 'Wed Nov 05 2025', day: 'Wed', slots: ['12:45 DEM'] },
+    ]);
+  });
+
+  it('parses dates split over several lines and skips unparseable ones', () => {
+    const schedule = parseFixture('multiline-dates.txt', 'A');
+
+    expect(simplify(schedule)).toEqual([
+      { date: 'Tue Oct 07 2025', day: 'Tue', slots: ['09:15 Macro'] },
+      { date: 'Tue Oct 21 2025', day: '', slots: ['09:15 HRM'] },
+      { date: 'Mon Feb 02 2026', day: 'Mon', slots: ['09:15 WC'] },
+    ]);
+    // The original cell text is kept for display
+    expect(schedule[0].dateStr).toBe('Oct\n7');
+  });
+
+  it('ignores title and header rows above the first date', () => {
+    const rows = parseGvizResponse(loadFixture('basic.txt'));
+    const schedule = parseTimetableRows(rows, 'A', TERM);
+
+    expect(schedule[0].dateStr).toBe('Oct 7');
+    expect(schedule.every((day) => day.slots.every((slot) => !slot.subject.startsWith('Section')))).toBe(true);
+  });
+});
+
+describe('detectSectionLayouts', () => {
+  it('finds each section block and its time sub-headers', () => {
+    const layouts = detectSectionLayouts(parseGvizResponse(loadFixture('basic.txt')));
+
+    expect(Object.keys(layouts).sort()).toEqual(['A', 'B', 'C', 'D', 'E']);
+    expect(layouts.B.columns).toEqual([9, 10, 11, 12, 13, 14]);
+    expect(layouts.B.headerTimes).toEqual(['09:00', '10:45', '12:30', '15:00', '16:45', '18:30']);
+  });
+
+  it('follows blocks that have moved and short "Sec" labels', () => {
+    const layouts = detectSectionLayouts(parseGvizResponse(loadFixture('shifted-columns.txt')));
+
+    expect(layouts.A.columns).toEqual([4, 5, 6, 7, 8, 9]);
+    expect(layouts.C.columns).toEqual([16, 17, 18, 19, 20, 21]);
+  });
+});
+
+describe('getSheetSections', () => {
+  it('lists the sections found in the sheet headers', () => {
+    expect(getSheetSections(parseGvizResponse(loadFixture('basic.txt')))).toEqual(['A', 'B', 'C', 'D', 'E']);
+    expect(getSheetSections([['Week', 'Date', 'Day']])).toEqual([]);
+  });
+  // A header row followed by one data row
+  const withHeader = (header: string[]) => [header, ['', 'Oct 7', 'Tue']];
+
+  it('accepts common label spellings', () => {
+    expect(getSheetSections(withHeader(['Section A', 'Sec. B', 'Sec-C', 'Section: D', 'Section E (evening)', 'sec f'])))
+      .toEqual(['A', 'B', 'C', 'D', 'E', 'F']);
+  });
+
+  it('ignores header words that only start like a section label', () => {
+    expect(getSheetSections(withHeader(['Sections', 'Sec Mgmt', 'Sectional', 'SecA', 'Section Sem 2', 'Semester']))).toEqual([]);
+  });
+});
+
+describe('parseTimetableRows with shifted columns', () => {
+  it('reads sections from the detected blocks instead of fixed offsets', () => {
+    expect(simplify(parseFixture('shifted-columns.txt', 'A'))).toEqual([
+      { date: 'Tue Oct 07 2025', day: 'Tue', slots: ['09:15 Macro', '11:00 HRM'] },
+      { date: 'Wed Oct 08 2025', day: 'Wed', slots: ['19:00 DEM'] },
+    ]);
+    expect(simplify(parseFixture('shifted-columns.txt', 'C'))).toEqual([
+      { date: 'Tue Oct 07 2025', day: 'Tue', slots: ['10:45 WC'] },
+    ]);
+  });
+
+  it('throws a clear error when the section is missing from the header', () => {
+    const rows = parseGvizResponse(loadFixture('shifted-columns.txt'));
+    rows[1][28] = 'Electives';
+
+    expect(() => parseTimetableRows(rows, 'E', TERM)).toThrow('Section E was not found in the sheet header');
+  });
+
+  it('falls back to the configured columns when the sheet has no section headers', () => {
+    const rows = [
+      ['Week', 'Date', 'Day'],
+      ['', 'Oct 7', 'Tue', 'Macro', 'HRM'],
+    ];
+
+    expect(simplify(parseTimetableRows(rows, 'A', TERM))).toEqual([
+      { date: 'Tue Oct 07 2025', day: 'Tue', slots: ['09:15 Macro', '11:00 HRM'] },
+    ]);
+    expect(console.warn).toHaveBeenCalled();
+  });
+});
+
+describe('parseTimetableRows slot times', () => {
+  const headerRows = [
+    ['', '', '', 'Section A', '', ''],
+    ['Week', 'Date', 'Day', '9:00 - 10:15', '10.30', ''],
+  ];
+
+  it('reads start and end times from the time header cells', () => {
+    const rows = [...headerRows, ['', 'Oct 7', 'Tue', 'Macro', 'HRM']];
+    const [day] = parseTimetableRows(rows, 'A', TERM);
+
+    expect(day.slots).toEqual([
+      { startTime: '09:00', endTime: '10:15', slotIndex: 0, subject: 'Macro' },
+      // No end time in the header: the section's class duration is used
+      { startTime: '10:30', endTime: '12:00', slotIndex: 1, subject: 'HRM' },
+    ]);
+  });
+
+  it('lets a time written in the cell override the header for that day', () => {
+    const rows = [...headerRows, ['', 'Oct 7', 'Tue', 'Guest Lecture (14:00-15:30)', '08:00 Macro']];
+
+    expect(parseTimetableRows(rows, 'A', TERM)[0].slots).toEqual([
+      { startTime: '08:00', endTime: '09:30', slotIndex: 1, subject: 'Macro' },
+      { startTime: '14:00', endTime: '15:30', slotIndex: 0, subject: 'Guest Lecture' },
+    ]);
+  });
+
+  it('uses the template times when the sheet has no time headers', () => {
+    const rows = [['Week', 'Date', 'Day'], ['', 'Oct 7', 'Tue', '', 'HRM']];
+
+    expect(parseTimetableRows(rows, 'A', TERM)[0].slots).toEqual([
+      { startTime: '11:00', endTime: '12:30', slotIndex: 1, subject: 'HRM' },
+    ]);
+  });
+});
+
+describe('slot details', () => {
+  it('reads room, faculty and notes from the columns beside each slot', () => {
+    const rows = [
+      ['', '', '', 'Section A', '', '', '', ''],
+      ['Week', 'Date', 'Day', '09:15', 'Room', 'Faculty', '11:00', 'Room'],
+      ['', 'Oct 7', 'Tue', 'Macro', 'LT-3', 'Prof. Rao', 'HRM', '-'],
+    ];
+    const [day] = parseTimetableRows(rows, 'A', TERM);
+
+    expect(day.slots).toEqual([
+      { startTime: '09:15', endTime: '10:45', slotIndex: 0, subject: 'Macro', room: 'LT-3', faculty: 'Prof. Rao' },
+      { startTime: '11:00', endTime: '12:30', slotIndex: 1, subject: 'HRM' },
+    ]);
+  });
+
+  it('maps subjects to details from the subject details tab', () => {
+    const details = parseSubjectDetails([
+      ['Faculty list'],
+      ['Subject', 'Faculty', 'Room', 'Notes'],
+      ['Macro', 'Prof. Rao', 'LT-3', ''],
+      ['HRM ', '', '', 'Bring case pack'],
+      ['Club Event'],
+    ]);
+
+    expect(details).toEqual({
+      'macro': { faculty: 'Prof. Rao', room: 'LT-3' },
+      'hrm': { notes: 'Bring case pack' },
+    });
+  });
+
+  it('returns no details when the tab has no subject column', () => {
+    expect(parseSubjectDetails(parseGvizResponse(loadFixture('basic.txt')))).toEqual({});
+  });
+
+  it('keeps values from the timetable over the subject details tab', () => {
+    const schedule = parseFixture('basic.txt', 'B').slice(0, 1);
+    schedule[0].slots[0].room = 'Auditorium';
+    const details = { 'cf/ba': { room: 'LT-1', faculty: 'Prof. Iyer' }, 'wc': { room: 'LT-2' } };
+
+    const [day] = applySubjectDetails(schedule, details);
+    expect(day.slots[0]).toMatchObject({ subject: 'CF/BA', room: 'Auditorium', faculty: 'Prof. Iyer' });
+    expect(day.slots[1]).toMatchObject({ subject: 'WC', room: 'LT-2' });
+    expect(day.slots[2].room).toBeUndefined();
+  });
+});
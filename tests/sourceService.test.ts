@@ -0,0 +1,220 @@
+import { readFileSync } from 'node:fs';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import {
+  adoptSourceFromUrl,
+  createTimetableSource,
+  getActiveSourceConfig,
+  parseCsv,
+  parseJsonRows,
+  parseSourceParams,
+  readTimetableFile,
+  saveSourceConfig,
+  saveUploadedTimetable,
+} from '../services/sourceService';
+import { DEFAULT_BATCH } from '../services/programmeService';
+import { ProgrammeConfig, SelectedBatch } from '../types';
+import { SHEET_TAB_NAME } from '../constants';
+import { TimetableError } from '../services/errorService';
+
+describe('parseCsv', () => {
+  it('splits rows and cells, honouring quotes', () => {
+    const csv = 'Week,Date,Day,09:15\r\n1,"Oct 6, 2025",Mon,"CF/BA ""lab"""\n,,,"Macro\nRoom 4"\n';
+
+    expect(parseCsv(csv)).toEqual([
+      ['Week', 'Date', 'Day', '09:15'],
+      ['1', 'Oct 6, 2025', 'Mon', 'CF/BA "lab"'],
+      ['', '', '', 'Macro\nRoom 4'],
+    ]);
+  });
+});
+
+describe('parseJsonRows', () => {
+  it('accepts bare rows or a timetable/details object', () => {
+    expect(parseJsonRows([['a', 1, null]])).toEqual({ rows: [['a', '1', '']], detailRows: [] });
+    expect(parseJsonRows({ timetable: [['a']], details: [['Subject', 'Room']] })).toEqual({
+      rows: [['a']],
+      detailRows: [['Subject', 'Room']],
+    });
+    expect(() => parseJsonRows({ rows: [] })).toThrow(/array of rows/);
+  });
+});
+
+describe('parseSourceParams', () => {
+  it('reads a source from URL parameters', () => {
+    expect(parseSourceParams(new URLSearchParams('sheet=https://docs.google.com/spreadsheets/d/abc-123_X/edit'))).toMatchObject({
+      type: 'gviz',
+      spreadsheetId: 'abc-123_X',
+      tabName: SHEET_TAB_NAME,
+    });
+    expect(parseSourceParams(new URLSearchParams('csv=https://example.com/t.csv'))).toEqual({
+      type: 'csv',
+      url: 'https://example.com/t.csv',
+      detailsUrl: undefined,
+    });
+    expect(parseSourceParams(new URLSearchParams('json=timetable.json'))).toEqual({ type: 'json', url: 'timetable.json' });
+    expect(parseSourceParams(new URLSearchParams('section=A'))).toBeNull();
+  });
+
+  it('gives each source its own cache key', () => {
+    const keys = [
+      createTimetableSource({ type: 'gviz', spreadsheetId: 'abc', tabName: 'TimeTable' }).key,
+      createTimetableSource({ type: 'gviz', spreadsheetId: 'abc', tabName: 'Batch 2' }).key,
+      createTimetableSource({ type: 'json', url: 'timetable.json' }).key,
+    ];
+    expect(new Set(keys).size).toBe(3);
+  });
+});
+
+describe('subject details tab', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('is only requested when the source names one', async () => {
+    const fetchMock = vi.fn();
+    vi.stubGlobal('fetch', fetchMock);
+
+    const source = createTimetableSource(parseSourceParams(new URLSearchParams('sheet=abc'))!);
+
+    expect(await source.fetchDetailRows()).toEqual([]);
+    expect(fetchMock).not.toHaveBeenCalled();
+    expect(parseSourceParams(new URLSearchParams('sheet=abc&detailsTab=Faculty'))).toMatchObject({ detailsTabName: 'Faculty' });
+  });
+});
+
+describe('json source', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('downloads the file once for both the timetable and the details', async () => {
+    const fetchMock = vi.fn(async () => new Response(JSON.stringify({ timetable: [['a']], details: [['Subject']] })));
+    vi.stubGlobal('fetch', fetchMock);
+
+    const source = createTimetableSource({ type: 'json', url: 'timetable.json' });
+    const [rows, detailRows] = await Promise.all([source.fetchRows(), source.fetchDetailRows()]);
+
+    expect(rows).toEqual([['a']]);
+    expect(detailRows).toEqual([['Subject']]);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  it('downloads again after a failure', async () => {
+    const fetchMock = vi.fn()
+      .mockRejectedValueOnce(new TypeError('Failed to fetch'))
+      .mockResolvedValueOnce(new Response('[["a"]]'));
+    vi.stubGlobal('fetch', fetchMock);
+
+    const source = createTimetableSource({ type: 'json', url: 'timetable.json' });
+
+    await expect(source.fetchRows()).rejects.toThrow('Failed to fetch');
+    expect(await source.fetchRows()).toEqual([['a']]);
+  });
+});
+
+describe('uploads', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('reads CSV files', async () => {
+    const csv = new File(['Week,Date,Day\n1,Oct 6,Mon\n'], 'timetable.csv');
+
+    expect(await readTimetableFile(csv)).toMatchObject({ rows: [['Week', 'Date', 'Day'], ['1', 'Oct 6', 'Mon']] });
+    await expect(readTimetableFile(new File(['x'], 'timetable.pdf'))).rejects.toThrow(/isn't an .xlsx or .csv file/);
+  });
+
+  it('reads the timetable tab of a workbook, writing dates and times as the sheet shows them', async () => {
+    const workbook = new File([readFileSync(new URL('./fixtures/xlsx/timetable.xlsx', import.meta.url))], 'timetable.xlsx');
+
+    expect(await readTimetableFile(workbook)).toEqual({
+      fileName: 'timetable.xlsx',
+      rows: [['Week', 'Date', 'Day', '09:15'], ['1', '2025-10-06', 'Mon', 'Macro']],
+      detailRows: [],
+    });
+  });
+
+  it('says so when the device has no room for the file', () => {
+    vi.stubGlobal('localStorage', {
+      setItem: () => {
+        throw new DOMException('The quota has been exceeded.', 'QuotaExceededError');
+      },
+    });
+
+    expect(() => saveUploadedTimetable({ fileName: 'timetable.csv', rows: [], detailRows: [] })).toThrow(/too large/);
+  });
+});
+
+describe('source overrides', () => {
+  const programme: ProgrammeConfig = {
+    id: 'pgp',
+    name: 'PGP',
+    batches: [{ id: '2026', name: '2026 batch', slotTimes: [], classDurationMinutes: 90 }],
+  };
+  const otherBatch: SelectedBatch = { programme, batch: programme.batches[0] };
+  const link = { type: 'csv', url: 'https://example.com/t.csv', detailsUrl: undefined } as const;
+
+  const stubBrowser = (search: string) => {
+    const store = new Map<string, string>();
+    vi.stubGlobal('localStorage', {
+      getItem: (key: string) => store.get(key) ?? null,
+      setItem: (key: string, value: string) => store.set(key, value),
+      removeItem: (key: string) => store.delete(key),
+    });
+    const replaceState = vi.fn();
+    vi.stubGlobal('window', {
+      location: { search, pathname: '/', hash: '' },
+      history: { state: null, replaceState },
+    });
+    return replaceState;
+  };
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('keeps a source chosen for one batch away from the others', () => {
+    stubBrowser('');
+    saveSourceConfig(otherBatch, link);
+
+    expect(getActiveSourceConfig(otherBatch)).toEqual(link);
+    expect(getActiveSourceConfig(DEFAULT_BATCH)).toMatchObject({ type: 'gviz' });
+  });
+
+  it('adopts a source link for the opening batch only and drops it from the address', () => {
+    const replaceState = stubBrowser('?csv=https://example.com/t.csv&section=A');
+
+    adoptSourceFromUrl(otherBatch);
+
+    expect(getActiveSourceConfig(otherBatch)).toEqual(link);
+    expect(getActiveSourceConfig(DEFAULT_BATCH)).toMatchObject({ type: 'gviz' });
+    expect(replaceState).toHaveBeenCalledWith(null, '', '/?section=A');
+  });
+});
+
+describe('private sheets', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  const source = () => createTimetableSource({ type: 'gviz', spreadsheetId: 'abc', tabName: 'TimeTable' });
+
+  it('are reported as not shared when redirected to sign in', async () => {
+    vi.stubGlobal('fetch', vi.fn(async () => ({
+      ok: true,
+      redirected: true,
+      url: 'https://accounts.google.com/v3/signin/identifier?continue=https%3A%2F%2Fdocs.google.com',
+      text: async () => '',
+    })));
+
+    await expect(source().fetchRows()).rejects.toThrow(expect.objectContaining({ kind: 'not-shared' }));
+  });
+
+  it('are reported as not shared when the sign-in page comes back as the body', async () => {
+    vi.stubGlobal('fetch', vi.fn(async () => new Response('<!doctype html><html><style>body{margin:0}</style></html>')));
+
+    const error = await source().fetchRows().catch((err) => err);
+    expect(error).toBeInstanceOf(TimetableError);
+    expect(error).toMatchObject({ kind: 'not-shared', transient: false });
+  });
+});
@@ -0,0 +1,40 @@
+import { describe, expect, it } from 'vitest';
+import { getBusiestDays, getCourseStats, getWeeklyLoad } from '../services/statsService';
+import { normalizeCourseKey } from '../services/subjectService';
+import { day } from './helpers';
+
+// Mon 6 Oct, Tue 7 Oct, Mon 13 Oct 2025
+const schedule = [
+  day(new Date(2025, 9, 6), ['Macro', 'CF/BA']),
+  day(new Date(2025, 9, 7), ['MACRO', 'Macro Eco', 'HRM', 'DEM Quiz 1']),
+  day(new Date(2025, 9, 13), ['Macro', 'BA']),
+];
+
+describe('normalizeCourseKey', () => {
+  it('treats spelling variants as one course', () => {
+    expect(normalizeCourseKey('Macro')).toBe('macro');
+    expect(normalizeCourseKey('MACRO')).toBe('macro');
+    expect(normalizeCourseKey(' Macro  Eco ')).toBe('macro');
+    expect(normalizeCourseKey('Business Analytics')).toBe('business analytics');
+  });
+});
+
+describe('getCourseStats', () => {
+  it('counts completed and remaining sessions per course', () => {
+    const stats = getCourseStats(schedule, new Date(2025, 9, 10));
+
+    expect(stats).toEqual([
+      { course: 'Macro', completed: 3, remaining: 1 },
+      { course: 'BA', completed: 1, remaining: 1 },
+      { course: 'CF', completed: 1, remaining: 0 },
+      { course: 'HRM', completed: 1, remaining: 0 },
+    ]);
+  });
+});
+
+describe('class load', () => {
+  it('totals classes per week and finds the busiest days', () => {
+    expect(getWeeklyLoad(schedule).map((w) => [w.weekStart.getDate(), w.classes])).toEqual([[6, 6], [13, 2]]);
+    expect(getBusiestDays(schedule, 2).map((d) => d.dateObj.getDate())).toEqual([7, 6]);
+  });
+});
@@ -0,0 +1,49 @@
+import { describe, expect, it } from 'vitest';
+import { filterScheduleBySubjects, getClassIdSubject, getSubjectOptions, splitSubjectOptions } from '../services/subjectService';
+import { day } from './helpers';
+
+describe('splitSubjectOptions', () => {
+  it('splits slash-separated electives', () => {
+    expect(splitSubjectOptions('CF/BA')).toEqual(['CF', 'BA']);
+    expect(splitSubjectOptions('Marketing / Pricing')).toEqual(['Marketing', 'Pricing']);
+  });
+
+  it('splits labelled groups and drops the labels', () => {
+    expect(splitSubjectOptions('A: Marketing | B: Pricing')).toEqual(['Marketing', 'Pricing']);
+    expect(splitSubjectOptions('Sec 1: CF/BA | Sec 2: OAD')).toEqual(['CF', 'BA', 'OAD']);
+  });
+
+  it('leaves single subjects and numbered slashes alone', () => {
+    expect(splitSubjectOptions('DEM Quiz 1')).toEqual(['DEM Quiz 1']);
+    expect(splitSubjectOptions('Quiz 1/2')).toEqual(['Quiz 1/2']);
+  });
+});
+
+describe('filterScheduleBySubjects', () => {
+  const schedule = [
+    day(new Date(2025, 9, 7), ['Macro', 'CF/BA']),
+    day(new Date(2025, 9, 8), ['BA']),
+  ];
+
+  it('lists every option once', () => {
+    expect(getSubjectOptions(schedule)).toEqual(['BA', 'CF', 'Macro']);
+  });
+
+  it('keeps only the chosen part of a combined cell and drops empty days', () => {
+    const filtered = filterScheduleBySubjects(schedule, ['BA']);
+
+    expect(filtered).toHaveLength(1);
+    expect(filtered[0].slots.map((slot) => slot.subject)).toEqual(['Macro', 'CF']);
+  });
+
+  it('keeps the whole cell for class IDs', () => {
+    const [macro, cf] = filterScheduleBySubjects(schedule, ['BA'])[0].slots;
+
+    expect(getClassIdSubject(macro)).toBe('Macro');
+    expect(getClassIdSubject(cf)).toBe('CF/BA');
+  });
+
+  it('returns the schedule unchanged when nothing is hidden', () => {
+    expect(filterScheduleBySubjects(schedule, [])).toBe(schedule);
+  });
+});
@@ -0,0 +1,78 @@
+import { describe, expect, it } from 'vitest';
+import { getAcademicTerm, inferYear, parseSheetDate } from '../services/termService';
+import { AcademicTerm } from '../types';
+
+// Oct 2025 - Mar 2026
+const TERM: AcademicTerm = { start: new Date(2025, 9, 1), end: new Date(2026, 2, 31) };
+
+const describeTerm = (term: AcademicTerm) => `${term.start.toDateString()} - ${term.end.toDateString()}`;
+
+describe('getAcademicTerm', () => {
+  it('returns the running term on either side of the new year', () => {
+    expect(describeTerm(getAcademicTerm(new Date(2025, 9, 1)))).toBe(describeTerm(TERM));
+    expect(describeTerm(getAcademicTerm(new Date(2025, 11, 15)))).toBe(describeTerm(TERM));
+    expect(describeTerm(getAcademicTerm(new Date(2026, 2, 31, 18)))).toBe(describeTerm(TERM));
+  });
+
+  it('keeps the term current through April for end-of-term exams', () => {
+    expect(describeTerm(getAcademicTerm(new Date(2026, 3, 1)))).toBe(describeTerm(TERM));
+    expect(describeTerm(getAcademicTerm(new Date(2026, 3, 10)))).toBe(describeTerm(TERM));
+    expect(describeTerm(getAcademicTerm(new Date(2026, 3, 30)))).toBe(describeTerm(TERM));
+  });
+
+  it('moves on to the upcoming term once the grace period is over', () => {
+    const next = 'Thu Oct 01 2026 - Wed Mar 31 2027';
+    expect(describeTerm(getAcademicTerm(new Date(2026, 4, 1)))).toBe(next);
+    expect(describeTerm(getAcademicTerm(new Date(2026, 8, 30)))).toBe(next);
+  });
+
+  it('switches straight to the upcoming term without a grace period', () => {
+    const config = { startMonth: 9, startDay: 1, endMonth: 2, endDay: 31 };
+    expect(getAcademicTerm(new Date(2026, 3, 1), config).start.getFullYear()).toBe(2026);
+  });
+});
+
+describe('inferYear', () => {
+  it('places months inside the term in the right year', () => {
+    expect(inferYear(9, 7, TERM)).toBe(2025);
+    expect(inferYear(11, 31, TERM)).toBe(2025);
+    expect(inferYear(0, 1, TERM)).toBe(2026);
+    expect(inferYear(2, 20, TERM)).toBe(2026);
+  });
+
+  it('places dates just outside the term next to it', () => {
+    expect(inferYear(3, 10, TERM)).toBe(2026);
+    expect(inferYear(8, 25, TERM)).toBe(2025);
+  });
+
+  it('keeps April sheet dates in the term that is ending', () => {
+    const term = getAcademicTerm(new Date(2026, 3, 10));
+    expect(inferYear(3, 10, term)).toBe(2026);
+    expect(inferYear(2, 20, term)).toBe(2026);
+  });
+});
+
+describe('parseSheetDate', () => {
+  const parse = (value: string) => parseSheetDate(value, TERM)?.toDateString() ?? null;
+
+  it('reads month-first and day-first dates, inferring the year', () => {
+    expect(parse('Oct 7')).toBe('Tue Oct 07 2025');
+    expect(parse('October 7th')).toBe('Tue Oct 07 2025');
+    expect(parse('7 Jan')).toBe('Wed Jan 07 2026');
+    expect(parse('Tue, Oct 7')).toBe('Tue Oct 07 2025');
+    expect(parse('Mar\n20')).toBe('Fri Mar 20 2026');
+  });
+
+  it('keeps an explicit year', () => {
+    expect(parse('Oct 7, 2026')).toBe('Wed Oct 07 2026');
+    expect(parse('7 Oct 2026')).toBe('Wed Oct 07 2026');
+    expect(parse('2026-10-07')).toBe('Wed Oct 07 2026');
+    expect(parse('Date(2026,9,7)')).toBe('Wed Oct 07 2026');
+  });
+
+  it('rejects text and impossible dates', () => {
+    expect(parse('')).toBeNull();
+    expect(parse('Section A')).toBeNull();
+    expect(parse('Feb 31')).toBeNull();
+  });
+});
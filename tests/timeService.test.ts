@@ -0,0 +1,52 @@
+import { describe, expect, it } from 'vitest';
+import { addMinutesToTime, extractTimeOverride, normalizeTime, parseTimeRange } from '../services/timeService';
+
+describe('normalizeTime', () => {
+  it('reads 24-hour, dotted and am/pm times', () => {
+    expect(normalizeTime('9:15')).toBe('09:15');
+    expect(normalizeTime('09.15')).toBe('09:15');
+    expect(normalizeTime('2:00 pm')).toBe('14:00');
+    expect(normalizeTime('12:30 a.m.')).toBe('00:30');
+    expect(normalizeTime('12:30 PM')).toBe('12:30');
+  });
+
+  it('rejects text and impossible times', () => {
+    expect(normalizeTime('Macro')).toBeNull();
+    expect(normalizeTime('25:00')).toBeNull();
+    expect(normalizeTime('9:15 Macro')).toBeNull();
+  });
+});
+
+describe('parseTimeRange', () => {
+  it('reads a start time with an optional end', () => {
+    expect(parseTimeRange('09:15 - 10:45')).toEqual({ start: '09:15', end: '10:45' });
+    expect(parseTimeRange('2:00 pm to 3:30 pm')).toEqual({ start: '14:00', end: '15:30' });
+    expect(parseTimeRange('09:15')).toEqual({ start: '09:15', end: null });
+  });
+});
+
+describe('addMinutesToTime', () => {
+  it('wraps past midnight', () => {
+    expect(addMinutesToTime('09:15', 90)).toBe('10:45');
+    expect(addMinutesToTime('23:30', 90)).toBe('01:00');
+  });
+});
+
+describe('extractTimeOverride', () => {
+  it('reads a leading time', () => {
+    expect(extractTimeOverride('14:00 Guest Lecture')).toEqual({ subject: 'Guest Lecture', start: '14:00', end: null });
+    expect(extractTimeOverride('@ 2:00 pm - 3:30 pm Guest Lecture')).toEqual({ subject: 'Guest Lecture', start: '14:00', end: '15:30' });
+  });
+
+  it('reads a trailing time, with or without brackets', () => {
+    expect(extractTimeOverride('Guest Lecture (14:00-15:30)')).toEqual({ subject: 'Guest Lecture', start: '14:00', end: '15:30' });
+    expect(extractTimeOverride('Macro @ 11:00')).toEqual({ subject: 'Macro', start: '11:00', end: null });
+    expect(extractTimeOverride('Macro - 11.00')).toEqual({ subject: 'Macro', start: '11:00', end: null });
+  });
+
+  it('leaves cells without a time alone', () => {
+    expect(extractTimeOverride('Macro')).toBeNull();
+    expect(extractTimeOverride('DEM Quiz 1')).toBeNull();
+    expect(extractTimeOverride('14:00')).toBeNull();
+  });
+});
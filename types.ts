@@ -1,10 +1,22 @@
-export type Section = 'A' | 'B' | 'C' | 'D' | 'E';
+// Section letter as labelled in the sheet ("Section A" -> 'A')
+export type Section = string;
 
 export interface TimeSlot {
-  time: string;
+  startTime: string; // HH:MM, from the sheet's time header or a per-day override in the cell
+  endTime: string;   // HH:MM
+  slotIndex: number; // Position of the slot column within the section block
   subject: string;
+  cellSubject?: string; // The cell's full subject when `subject` shows only some of its options; class IDs use it
+  room?: string;
+  faculty?: string;
+  notes?: string;
+  section?: Section; // Set when several sections are merged into one view
 }
 
+// Optional per-class details, from columns beside the slot or the subject details tab
+export type SlotDetailField = 'room' | 'faculty' | 'notes';
+export type SlotDetails = Partial<Record<SlotDetailField, string>>;
+
 export interface DaySchedule {
   dateObj: Date;
   dateStr: string;
@@ -12,6 +24,88 @@ export interface DaySchedule {
   slots: TimeSlot[];
 }
 
+// Recurring academic term, expressed as month/day pairs (months are 0-indexed like Date)
+export interface AcademicTermConfig {
+  startMonth: number;
+  startDay: number;
+  endMonth: number;
+  endDay: number;
+  graceDays?: number; // Days after the end the term stays current, for exams and late sheet weeks
+}
+
+// A concrete academic term with resolved start/end dates (both at midnight)
+export interface AcademicTerm {
+  start: Date;
+  end: Date;
+}
+
+// A single difference between two fetched copies of a section's timetable
+export type ScheduleChangeType = 'added' | 'removed' | 'rescheduled';
+
+export interface ScheduleChange {
+  type: ScheduleChangeType;
+  subject: string;
+  cellSubject?: string; // As on TimeSlot
+  date: Date;   // New date (or the removed slot's date)
+  time: string; // New time (or the removed slot's time)
+  previousDate?: Date; // Only for rescheduled slots
+  previousTime?: string;
+}
+
+// Where a section's slots live in the sheet
+export interface SectionColumnLayout {
+  section: string;
+  columns: number[];     // Sheet column index of each slot, in slot order
+  headerTimes: string[]; // Time sub-header text above each slot column ('' if none)
+  detected: boolean;     // false when the batch's configured start column was used as a fallback
+  detailColumns: Partial<Record<SlotDetailField, number>>[]; // Room/faculty/notes columns beside each slot
+}
+
+// Where timetable rows come from: the Google Sheet, a CSV export, an uploaded file or a JSON file
+export type TimetableSourceConfig =
+  | { type: 'gviz'; spreadsheetId: string; tabName: string; detailsTabName?: string }
+  | { type: 'csv'; url: string; detailsUrl?: string }
+  | { type: 'file'; fileName: string; uploadedAt: string } // Rows kept in localStorage
+  | { type: 'json'; url: string };
+
+// A configured source, ready to fetch sheet rows as display strings
+export interface TimetableSource {
+  key: string;   // Identifies the source, so cached copies from another source aren't mixed in
+  label: string; // Shown in settings
+  fetchRows: (signal?: AbortSignal) => Promise<string[][]>;
+  fetchDetailRows: (signal?: AbortSignal) => Promise<string[][]>; // Optional subject details table; [] when there is none
+}
+
+// Template layout of one section, used where the sheet itself doesn't say
+export interface SectionConfig {
+  id: Section;
+  startColumn?: number;           // Start column of the section block when the sheet has no "Section X" header
+  slotTimes?: string[];           // Slot start times when the time header cells are blank; defaults to the batch's
+  classDurationMinutes?: number;  // Defaults to the batch's
+}
+
+// One batch of a programme, e.g. the 2025-27 PGP batch
+export interface BatchConfig {
+  id: string;
+  name: string;
+  source?: TimetableSourceConfig; // Defaults to the app's default sheet
+  sections?: SectionConfig[];     // Omit to discover sections from the sheet's "Section X" headers
+  slotTimes: string[];            // Default slot start times for every section
+  classDurationMinutes: number;
+}
+
+export interface ProgrammeConfig {
+  id: string;
+  name: string;
+  batches: BatchConfig[];
+}
+
+// A batch together with the programme it belongs to
+export interface SelectedBatch {
+  programme: ProgrammeConfig;
+  batch: BatchConfig;
+}
+
 export interface SheetRow {
   [key: number]: string;
 }
@@ -15,8 +15,8 @@ export default defineConfig(({ mode }) => {
         VitePWA({
           registerType: 'autoUpdate',
           strategies: 'injectManifest',
-          srcDir: 'public',
-          filename: 'alarm-sw.js',
+          srcDir: '.',
+          filename: 'alarm-sw.ts',
           injectManifest: {
             globPatterns: ['**/*.{js,css,html,ico,png,svg,woff2}'],
           },
@@ -65,20 +65,6 @@ export default defineConfig(({ mode }) => {
           workbox: {
             globPatterns: ['**/*.{js,css,html,ico,png,svg,woff2}'],
             runtimeCaching: [
-              {
-                urlPattern: /^https:\/\/docs\.google\.com\/spreadsheets\/.*/i,
-                handler: 'NetworkFirst',
-                options: {
-                  cacheName: 'google-sheets-cache',
-                  expiration: {
-                    maxEntries: 10,
-                    maxAgeSeconds: 60 * 60 * 24 // 24 hours
-                  },
-                  cacheableResponse: {
-                    statuses: [0, 200]
-                  }
-                }
-              },
               {
                 urlPattern: /^https:\/\/cdn-icons-png\.flaticon\.com\/.*/i,
                 handler: 'CacheFirst',